@@ -4,38 +4,154 @@
 */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppStatus, ChatMessage, SearchSource } from './types';
-import * as geminiService from './services/geminiService';
+import { AppStatus, AnswerFeedback, ChatMessage, ChatSession, ChatTree, FeedbackInput, SearchSource, RagStore, LibraryOptions, Document, CustomMetadata, MetadataFilter, QueryResult, GenerationSettings, PromptTemplate, UploadFileStatus, UploadProgress } from './types';
+import { initialize as initializeSearchProvider, getProvider } from './services/searchProvider';
+import { getRecording } from './services/geminiService';
+import { parseInlineFilters, buildMetadataFilter, listMetadataKeys, FILTER_ONLY_QUERY } from './services/metadataFilter';
+import { trimHistory } from './services/conversation';
+import { createChatTree, activePathIds, addMessage, updateMessage, switchBranch, clearActiveChild, branchPosition, parentOf, isChatTree, ROOT_ID } from './services/chatTree';
+import { AppSettings, loadSettings, saveSettings } from './services/settings';
+import { loadCustomTemplates, saveCustomTemplates, mergeTemplates, toCustomTemplates, findTemplate } from './services/promptTemplates';
+import { hybridSearchStream } from './services/hybridSearch';
+import { runUploadQueue, UploadFn } from './services/uploadQueue';
+import { convertFiles } from './services/fileConversion';
+import { withOcr } from './services/ocr';
+import * as sessionStore from './services/sessionStore';
+import * as feedbackStore from './services/feedbackStore';
+import { ExportFormat, exportToMarkdown, exportToHtml, exportToJson, importConversation, exportFileName, downloadFile } from './services/exportConversation';
 import Spinner from './components/Spinner';
 import UploadModal from './components/UploadModal';
 import ChatInterface from './components/ChatInterface';
+import LibraryModal from './components/LibraryModal';
+import SessionSidebar from './components/SessionSidebar';
+import FeedbackModal from './components/FeedbackModal';
+
+/** Header and prompt label for a set of libraries, e.g. "Washers & Dryers" or "3 libraries". */
+function describeStoreSet(stores: RagStore[]): string {
+    if (stores.length <= 2) return stores.map(store => store.displayName).join(' & ');
+    return `${stores.length} libraries`;
+}
+
+/** Takes one question from each list in turn, so every library is represented near the start. */
+function interleave(lists: string[][]): string[] {
+    const length = Math.max(0, ...lists.map(list => list.length));
+    return Array.from({ length }, (_, i) => lists.flatMap(list => i < list.length ? [list[i]] : []))
+        .flat()
+        .filter((question, index, all) => all.indexOf(question) === index);
+}
 
 const App: React.FC = () => {
     const [status, setStatus] = useState<AppStatus>(AppStatus.Initializing);
     const [searchSource, setSearchSource] = useState<SearchSource>(SearchSource.FileSearch);
     const [error, setError] = useState<string | null>(null);
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-    const [uploadProgress, setUploadProgress] = useState<{ current: number, total: number, message?: string, fileName?: string } | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
     const [activeRagStoreName, setActiveRagStoreName] = useState<string | null>(null);
-    const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+    // Libraries the chat searches, the active one first. Documents are managed in the active one only.
+    const [queryStores, setQueryStores] = useState<RagStore[]>([]);
+    const [deleteStoreOnEnd, setDeleteStoreOnEnd] = useState(false);
+    const [isLibraryModalOpen, setIsLibraryModalOpen] = useState(false);
+    const [ragStores, setRagStores] = useState<RagStore[]>([]);
+    const [isStoresLoading, setIsStoresLoading] = useState(false);
+    const [documents, setDocuments] = useState<Document[]>([]);
+    // Documents of the other libraries searched alongside the active one; only read for filters.
+    const [otherDocuments, setOtherDocuments] = useState<Document[]>([]);
+    const [isDocumentsLoading, setIsDocumentsLoading] = useState(false);
+    const [processingFile, setProcessingFile] = useState<string | null>(null);
+    // Uploaded files, keyed by name, so sources can link back to the original document.
+    const [localFiles, setLocalFiles] = useState<Record<string, File>>({});
+    const [settings, setSettings] = useState<AppSettings>(loadSettings);
+    const [systemPrompt, setSystemPrompt] = useState('');
+    const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+    const [chatTree, setChatTree] = useState<ChatTree>(() => createChatTree());
     const [isQueryLoading, setIsQueryLoading] = useState(false);
     const [exampleQuestions, setExampleQuestions] = useState<string[]>([]);
     const [documentName, setDocumentName] = useState<string>('');
+    const [sessions, setSessions] = useState<ChatSession[]>([]);
+    const [activeSession, setActiveSession] = useState<Pick<ChatSession, 'id' | 'title' | 'createdAt'> | null>(null);
+    const [isReadOnly, setIsReadOnly] = useState(false);
+    const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+    // Ratings of answers in the open conversation, keyed by message id.
+    const [sessionFeedback, setSessionFeedback] = useState<Record<string, AnswerFeedback>>({});
+    const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
+    const [feedbackLog, setFeedbackLog] = useState<AnswerFeedback[]>([]);
+    const [isFeedbackLoading, setIsFeedbackLoading] = useState(false);
+    // Conversation restored from history; saving it again would only bump the timestamp.
+    const restoredTreeRef = useRef<ChatTree | null>(null);
     const ragStoreNameRef = useRef(activeRagStoreName);
+    const deleteStoreOnEndRef = useRef(deleteStoreOnEnd);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const uploadAbortRef = useRef<AbortController | null>(null);
+    // The library being filled by the upload modal, kept until the chat starts or the upload is discarded.
+    const pendingUploadRef = useRef<{ ragStoreName: string; libraryName: string; options: LibraryOptions } | null>(null);
+    // The branch on screen: ids and messages from the first question to the latest answer.
+    const pathIds = activePathIds(chatTree);
+    const chatHistory = pathIds.map(id => chatTree.nodes[id].message);
+    // Everything a question searches, for inline filter keys and filter chips.
+    const searchedDocuments = [...documents, ...otherDocuments];
+    const promptTemplates = mergeTemplates(customTemplates);
+    const generationSettings: GenerationSettings = {
+        ...settings.generation,
+        systemInstruction: systemPrompt,
+        promptTemplate: findTemplate(promptTemplates, settings.promptTemplateId),
+        documentName,
+    };
 
     useEffect(() => {
         ragStoreNameRef.current = activeRagStoreName;
-    }, [activeRagStoreName]);
+        deleteStoreOnEndRef.current = deleteStoreOnEnd;
+    }, [activeRagStoreName, deleteStoreOnEnd]);
     
     useEffect(() => {
-        geminiService.initialize();
+        try {
+            initializeSearchProvider();
+        } catch (err) {
+            handleError("Failed to initialize the search provider", err);
+            return;
+        }
+        // With GEMINI_FIXTURES=record, `downloadGeminiFixture()` in the browser console saves the calls made so far.
+        if (getRecording()) {
+            Object.assign(window, {
+                downloadGeminiFixture: () => downloadFile(JSON.stringify(getRecording(), null, 2), exportFileName('gemini-fixture', 'json'), 'application/json'),
+            });
+        }
         setStatus(AppStatus.Chatting);
+        refreshSessions();
     }, []);
 
+    useEffect(() => {
+        saveSettings(settings);
+    }, [settings]);
+
+    useEffect(() => {
+        saveCustomTemplates(customTemplates);
+    }, [customTemplates]);
+
+    useEffect(() => {
+        if (!activeSession || isReadOnly || chatHistory.length === 0) return;
+        if (chatTree === restoredTreeRef.current) return;
+        if (chatHistory[chatHistory.length - 1].isStreaming) return;
+
+        sessionStore.saveSession({
+            ...activeSession,
+            updatedAt: Date.now(),
+            searchSource,
+            documentName,
+            ragStoreName: activeRagStoreName,
+            ragStoreNames: queryStores.length > 1 ? queryStores.map(store => store.name) : undefined,
+            messages: chatHistory,
+            tree: chatTree,
+            systemPrompt: systemPrompt || undefined,
+        })
+            .then(refreshSessions)
+            .catch(err => console.error("Failed to save chat session", err));
+    }, [chatTree]);
+
     useEffect(() => {
         const handleUnload = () => {
-            if (ragStoreNameRef.current) {
-                geminiService.deleteRagStore(ragStoreNameRef.current)
+            // Only libraries explicitly marked as temporary are removed with the tab.
+            if (ragStoreNameRef.current && deleteStoreOnEndRef.current) {
+                getProvider().deleteRagStore(ragStoreNameRef.current)
                     .catch(err => console.error("Error deleting RAG store on unload:", err));
             }
         };
@@ -48,6 +164,24 @@ const App: React.FC = () => {
     }, []);
 
 
+    useEffect(() => {
+        setDocuments([]);
+        if (activeRagStoreName) {
+            refreshDocuments(activeRagStoreName);
+        }
+    }, [activeRagStoreName]);
+
+    const otherStoreNames = queryStores.map(store => store.name).filter(name => name !== activeRagStoreName);
+    useEffect(() => {
+        setOtherDocuments([]);
+        if (otherStoreNames.length === 0) return;
+        let isCurrent = true;
+        Promise.all(otherStoreNames.map(name => getProvider().listDocuments(name)))
+            .then(lists => { if (isCurrent) setOtherDocuments(lists.flat()); })
+            .catch(err => console.error("Failed to list documents", err));
+        return () => { isCurrent = false; };
+    }, [otherStoreNames.join('\n')]);
+
     const handleError = (message: string, err: any) => {
         console.error(message, err);
         setError(`${message}${err ? `: ${err instanceof Error ? err.message : String(err)}` : ''}`);
@@ -59,128 +193,682 @@ const App: React.FC = () => {
         setStatus(AppStatus.Chatting); // Return to the main chat view
     }
 
-    const handleUploadAndStartChat = async (files: File[]) => {
+    const rememberLocalFiles = (files: File[]) => {
+        setLocalFiles(prev => {
+            const next = { ...prev };
+            files.forEach(file => { next[file.name] = file; });
+            return next;
+        });
+    };
+
+    const handleUploadAndStartChat = async (files: File[], options: LibraryOptions) => {
         if (files.length === 0) return;
         
         setStatus(AppStatus.Uploading);
-        const totalSteps = files.length + 2;
-        setUploadProgress({ current: 0, total: totalSteps, message: "Creating document index..." });
+        const queued: UploadFileStatus[] = files.map(file => ({ file, state: 'queued', attempts: 0 }));
+        setUploadProgress({ phase: 'creating', message: "Creating document index...", files: queued });
+
+        let docName = '';
+        if (files.length === 1) {
+            docName = files[0].name;
+        } else if (files.length === 2) {
+            docName = `${files[0].name} & ${files[1].name}`;
+        } else {
+            docName = `${files.length} documents`;
+        }
+        const libraryName = options.displayName || docName;
 
         try {
-            const storeName = `chat-session-${Date.now()}`;
-            const ragStoreName = await geminiService.createRagStore(storeName);
-            
-            setUploadProgress({ current: 1, total: totalSteps, message: "Generating embeddings..." });
-
-            for (let i = 0; i < files.length; i++) {
-                setUploadProgress(prev => ({ 
-                    ...(prev!),
-                    current: i + 1,
-                    message: "Generating embeddings...",
-                    fileName: `(${i + 1}/${files.length}) ${files[i].name}`
-                }));
-                await geminiService.uploadToRagStore(ragStoreName, files[i]);
-            }
-            
-            setUploadProgress({ current: files.length + 1, total: totalSteps, message: "Generating suggestions...", fileName: "" });
-            const questions = await geminiService.generateExampleQuestions(ragStoreName);
+            const ragStoreName = await getProvider().createRagStore(libraryName);
+            pendingUploadRef.current = { ragStoreName, libraryName, options };
+            await uploadFiles(queued);
+        } catch (err) {
+            setUploadProgress(null);
+            handleError("Failed to start chat session", err);
+        }
+    };
+
+    // Uploads every file in `statuses` that is not done yet, then either starts the chat or asks what to do about failures.
+    const uploadFiles = async (statuses: UploadFileStatus[]) => {
+        const pending = pendingUploadRef.current;
+        if (!pending) return;
+        const done = statuses.filter(status => status.state === 'done');
+        const remaining = statuses.filter(status => status.state !== 'done').map(status => status.file);
+
+        const abortController = new AbortController();
+        uploadAbortRef.current = abortController;
+        const report = (current: UploadFileStatus[]) =>
+            setUploadProgress({ phase: 'uploading', message: "Uploading and indexing...", files: [...done, ...current] });
+
+        const upload: UploadFn = (file, uploadOptions) => getProvider().uploadToRagStore(pending.ragStoreName, file, [], uploadOptions);
+        const results = await runUploadQueue(
+            remaining,
+            pending.options.ocr ? withOcr(upload) : upload,
+            report,
+            abortController.signal,
+        );
+        uploadAbortRef.current = null;
+
+        const all = [...done, ...results];
+        const uploaded = all.filter(status => status.state === 'done');
+        rememberLocalFiles(uploaded.map(status => status.file));
+        if (uploaded.length === all.length) {
+            await finishUpload(all);
+        } else {
+            setUploadProgress({
+                phase: 'review',
+                message: uploaded.length > 0 ? `${uploaded.length} of ${all.length} files were added` : "No files could be added",
+                files: all,
+            });
+        }
+    };
+
+    const handleCancelUpload = () => {
+        uploadAbortRef.current?.abort(new Error("Cancelled"));
+    };
+
+    const handleRetryFailedUploads = () => {
+        if (uploadProgress) uploadFiles(uploadProgress.files);
+    };
+
+    const finishUpload = async (files: UploadFileStatus[]) => {
+        const pending = pendingUploadRef.current;
+        if (!pending) return;
+        const { ragStoreName, libraryName, options } = pending;
+        try {
+            setUploadProgress({ phase: 'finishing', message: "Generating suggestions...", files });
+            const questions = options.suggestedQuestions?.length
+                ? options.suggestedQuestions
+                : await getProvider().generateExampleQuestions(ragStoreName, { ...generationSettings, documentName: libraryName });
             setExampleQuestions(questions);
 
-            setUploadProgress({ current: totalSteps, total: totalSteps, message: "All set!", fileName: "" });
+            setUploadProgress({ phase: 'finishing', message: "All set!", files });
             
             await new Promise(resolve => setTimeout(resolve, 500)); 
 
-            let docName = '';
-            if (files.length === 1) {
-                docName = files[0].name;
-            } else if (files.length === 2) {
-                docName = `${files[0].name} & ${files[1].name}`;
-            } else {
-                docName = `${files.length} documents`;
-            }
-            setDocumentName(docName);
+            setDocumentName(libraryName);
 
             setActiveRagStoreName(ragStoreName);
-            setChatHistory([]);
+            setQueryStores([{ name: ragStoreName, displayName: libraryName }]);
+            setDeleteStoreOnEnd(options.deleteOnEnd);
+            setChatTree(createChatTree());
             setStatus(AppStatus.Chatting);
             setIsUploadModalOpen(false);
         } catch (err) {
             handleError("Failed to start chat session", err);
         } finally {
+            pendingUploadRef.current = null;
             setUploadProgress(null);
-            if (status !== AppStatus.Error) {
-                setStatus(AppStatus.Chatting);
-            }
+        }
+    };
+
+    const handleStartWithUploaded = () => {
+        if (uploadProgress) finishUpload(uploadProgress.files.filter(status => status.state === 'done'));
+    };
+
+    const handleDiscardUpload = () => {
+        const pending = pendingUploadRef.current;
+        pendingUploadRef.current = null;
+        setUploadProgress(null);
+        setStatus(AppStatus.Chatting);
+        if (pending) {
+            getProvider().deleteRagStore(pending.ragStoreName).catch(err => {
+                console.error("Failed to delete discarded library", err);
+            });
         }
     };
 
     const handleEndChat = () => {
-        if (activeRagStoreName) {
-            geminiService.deleteRagStore(activeRagStoreName).catch(err => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        if (activeRagStoreName && deleteStoreOnEnd) {
+            getProvider().deleteRagStore(activeRagStoreName).catch(err => {
                 console.error("Failed to delete RAG store in background", err);
             });
         }
         setActiveRagStoreName(null);
-        setChatHistory([]);
+        setQueryStores([]);
+        setDeleteStoreOnEnd(false);
+        setChatTree(createChatTree());
         setExampleQuestions([]);
         setDocumentName('');
         setSearchSource(SearchSource.FileSearch);
+        setActiveSession(null);
+        setIsReadOnly(false);
+        setSystemPrompt('');
+        setSessionFeedback({});
+        restoredTreeRef.current = null;
         setStatus(AppStatus.Chatting);
     };
 
+    const refreshSessions = async () => {
+        try {
+            setSessions(await sessionStore.listSessions());
+        } catch (err) {
+            console.error("Failed to load chat sessions", err);
+        }
+    };
+
+    const handleSelectSession = async (session: ChatSession) => {
+        if (session.id === activeSession?.id) return;
+        handleEndChat();
+
+        // Sessions saved before branching existed only have the flat transcript. The converted tree
+        // is saved right away, so its message ids, which feedback is keyed by, stay the same next time.
+        const tree = isChatTree(session.tree) ? session.tree : createChatTree(session.messages);
+        if (tree !== session.tree) {
+            sessionStore.saveSession({ ...session, tree })
+                .then(refreshSessions)
+                .catch(err => console.error("Failed to save chat session", err));
+        }
+        restoredTreeRef.current = tree;
+        setActiveSession({ id: session.id, title: session.title, createdAt: session.createdAt });
+        setChatTree(tree);
+        feedbackStore.listSessionFeedback(session.id)
+            .then(entries => setSessionFeedback(Object.fromEntries(entries.map(entry => [entry.id, entry]))))
+            .catch(err => console.error("Failed to load feedback", err));
+        setSearchSource(session.searchSource);
+        setDocumentName(session.documentName);
+        setSystemPrompt(session.systemPrompt || '');
+
+        if (session.searchSource === SearchSource.GoogleSearch) {
+            setExampleQuestions(await getProvider().generateWebSearchQuestions());
+            return;
+        }
+        if (!session.ragStoreName) {
+            setIsReadOnly(true);
+            return;
+        }
+
+        setIsQueryLoading(true);
+        try {
+            // Continue live only if the library still exists; otherwise show the transcript read-only.
+            const store = await getProvider().getRagStore(session.ragStoreName);
+            // Libraries searched alongside it are optional; any that were deleted are dropped.
+            const others = await Promise.all((session.ragStoreNames || [])
+                .filter(name => name !== store.name)
+                .map(name => getProvider().getRagStore(name).catch(() => null)));
+            setActiveRagStoreName(store.name);
+            setQueryStores([store, ...others.filter((other): other is RagStore => other !== null)]);
+        } catch (err) {
+            console.warn("Library for this conversation is no longer available", err);
+            setIsReadOnly(true);
+        } finally {
+            setIsQueryLoading(false);
+        }
+    };
+
+    const handleExport = (format: ExportFormat) => {
+        const exportedAt = new Date();
+        const meta = {
+            title: activeSession?.title || documentName || 'Conversation',
+            documentName,
+            searchSource,
+            ragStoreName: activeRagStoreName,
+            exportedAt,
+            tree: chatTree,
+        };
+        const messages = chatHistory.filter(message => !message.isStreaming);
+        if (format === 'markdown') {
+            downloadFile(exportToMarkdown(messages, meta), exportFileName(meta.title, 'md', exportedAt), 'text/markdown');
+        } else if (format === 'html') {
+            downloadFile(exportToHtml(messages, meta), exportFileName(meta.title, 'html', exportedAt), 'text/html');
+        } else {
+            downloadFile(exportToJson(messages, meta), exportFileName(meta.title, 'json', exportedAt), 'application/json');
+        }
+    };
+
+    const handleImportSession = async (file: File) => {
+        try {
+            const session = importConversation(await file.text());
+            await sessionStore.saveSession(session);
+            await refreshSessions();
+            await handleSelectSession(session);
+        } catch (err) {
+            console.error("Failed to import conversation", err);
+            alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const handleRenameSession = async (id: string, title: string) => {
+        if (id === activeSession?.id) {
+            setActiveSession(prev => prev && { ...prev, title });
+        }
+        try {
+            await sessionStore.renameSession(id, title);
+        } catch (err) {
+            console.error("Failed to rename chat session", err);
+        }
+        await refreshSessions();
+    };
+
+    const handleDeleteSession = async (id: string) => {
+        if (id === activeSession?.id) {
+            handleEndChat();
+        }
+        try {
+            await sessionStore.deleteSession(id);
+        } catch (err) {
+            console.error("Failed to delete chat session", err);
+        }
+        await refreshSessions();
+    };
+
     const handleFileSearchClick = () => {
         // If there's an active chat session (either FileSearch or GoogleSearch),
         // end it to ensure a clean state before starting a new file upload.
-        if (activeRagStoreName || searchSource === SearchSource.GoogleSearch) {
+        if (activeRagStoreName || searchSource === SearchSource.GoogleSearch || activeSession) {
             handleEndChat();
         }
         // handleEndChat resets the searchSource to FileSearch, preparing for the new session.
         setIsUploadModalOpen(true);
     };
 
-    const handleSendMessage = async (message: string) => {
-        if (searchSource === SearchSource.FileSearch && !activeRagStoreName) return;
+    const refreshRagStores = async () => {
+        setIsStoresLoading(true);
+        try {
+            setRagStores(await getProvider().listRagStores());
+        } catch (err) {
+            console.error("Failed to list RAG stores", err);
+        } finally {
+            setIsStoresLoading(false);
+        }
+    };
+
+    const handleLibraryClick = () => {
+        setIsLibraryModalOpen(true);
+        refreshRagStores();
+    };
 
-        const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }] };
-        setChatHistory(prev => [...prev, userMessage]);
+    const handleCreateStore = async (displayName: string) => {
+        setIsStoresLoading(true);
+        try {
+            await getProvider().createRagStore(displayName);
+        } catch (err) {
+            console.error("Failed to create RAG store", err);
+        }
+        await refreshRagStores();
+    };
+
+    const handleDeleteStore = async (storeName: string) => {
+        if (storeName === activeRagStoreName) {
+            handleEndChat();
+        } else if (queryStores.some(store => store.name === storeName)) {
+            const remaining = queryStores.filter(store => store.name !== storeName);
+            setQueryStores(remaining);
+            setDocumentName(describeStoreSet(remaining));
+            refreshSuggestions(remaining);
+        }
+        setIsStoresLoading(true);
+        try {
+            await getProvider().deleteRagStore(storeName);
+        } catch (err) {
+            console.error("Failed to delete RAG store", err);
+        }
+        await refreshRagStores();
+    };
+
+    // Suggestions for the libraries a chat searches, asked of each library and taken in turn.
+    const suggestQuestions = async (stores: RagStore[]): Promise<string[]> => {
+        const lists = await Promise.all(stores.map(store =>
+            getProvider().generateExampleQuestions(store.name, { ...generationSettings, documentName: store.displayName })));
+        return interleave(lists);
+    };
+
+    // Keeps the suggestions in step when libraries join or leave a running chat.
+    const refreshSuggestions = (stores: RagStore[]) => {
+        suggestQuestions(stores)
+            .then(setExampleQuestions)
+            .catch(err => console.error("Failed to suggest questions", err));
+    };
+
+    const handleOpenStore = async (store: RagStore) => {
+        if (store.name === activeRagStoreName) {
+            // Narrows a multi-library chat back to this library.
+            if (queryStores.length > 1) {
+                setQueryStores(queryStores.filter(queryStore => queryStore.name === store.name));
+                setDocumentName(store.displayName);
+                refreshSuggestions([store]);
+            }
+            setIsLibraryModalOpen(false);
+            return;
+        }
+        if (activeRagStoreName || searchSource === SearchSource.GoogleSearch || activeSession) {
+            handleEndChat();
+        }
+        setIsLibraryModalOpen(false);
+        setIsQueryLoading(true);
+        try {
+            const freshStore = await getProvider().getRagStore(store.name);
+            setActiveRagStoreName(freshStore.name);
+            setQueryStores([freshStore]);
+            setDeleteStoreOnEnd(false);
+            setDocumentName(freshStore.displayName);
+            setChatTree(createChatTree());
+            const questions = await getProvider().generateExampleQuestions(freshStore.name, { ...generationSettings, documentName: freshStore.displayName });
+            setExampleQuestions(questions);
+        } catch (err) {
+            handleError("Failed to open library", err);
+        } finally {
+            setIsQueryLoading(false);
+        }
+    };
+
+    // Searches several libraries in one chat. If the active library is part of the
+    // set the conversation continues; otherwise a new chat starts with the first one active.
+    const handleOpenStores = async (stores: RagStore[]) => {
+        if (stores.length === 0) return;
+        if (stores.length === 1) return handleOpenStore(stores[0]);
+        const active = stores.find(store => store.name === activeRagStoreName);
+        if (active && searchSource !== SearchSource.GoogleSearch) {
+            const ordered = [active, ...stores.filter(store => store !== active)];
+            setQueryStores(ordered);
+            setDocumentName(describeStoreSet(ordered));
+            setIsLibraryModalOpen(false);
+            refreshSuggestions(ordered);
+            return;
+        }
+        if (activeRagStoreName || searchSource === SearchSource.GoogleSearch || activeSession) {
+            handleEndChat();
+        }
+        setIsLibraryModalOpen(false);
+        setIsQueryLoading(true);
+        try {
+            const freshStores = await Promise.all(stores.map(store => getProvider().getRagStore(store.name)));
+            setActiveRagStoreName(freshStores[0].name);
+            setQueryStores(freshStores);
+            setDeleteStoreOnEnd(false);
+            setDocumentName(describeStoreSet(freshStores));
+            setChatTree(createChatTree());
+            setExampleQuestions(await suggestQuestions(freshStores));
+        } catch (err) {
+            handleError("Failed to open libraries", err);
+        } finally {
+            setIsQueryLoading(false);
+        }
+    };
+
+    const refreshDocuments = async (storeName: string) => {
+        setIsDocumentsLoading(true);
+        try {
+            const docs = await getProvider().listDocuments(storeName);
+            // Ignore results for a store the user has already navigated away from.
+            if (ragStoreNameRef.current === storeName) {
+                setDocuments(docs);
+            }
+        } catch (err) {
+            console.error("Failed to list documents", err);
+        } finally {
+            setIsDocumentsLoading(false);
+        }
+    };
+
+    const handleUploadDocument = async (file: File, metadata: CustomMetadata[]) => {
+        if (!activeRagStoreName) return;
+        const storeName = activeRagStoreName;
+        setProcessingFile(file.name);
+        try {
+            const { files, rejected } = await convertFiles([file]);
+            // Goes through the queue for its retries and timeout; an archive may hold several documents.
+            const results = await runUploadQueue(
+                files,
+                (upload, uploadOptions) => getProvider().uploadToRagStore(storeName, upload, metadata, uploadOptions),
+                () => {},
+            );
+            rememberLocalFiles(results.filter(result => result.state === 'done').map(result => result.file));
+            const failures = [
+                ...rejected,
+                ...results.filter(result => result.state !== 'done').map(result => ({ name: result.file.name, reason: result.error || 'Upload failed' })),
+            ];
+            if (failures.length > 0) {
+                console.error("Failed to upload documents", failures);
+                alert(`Could not add:\n${failures.map(failure => `${failure.name}: ${failure.reason}`).join('\n')}`);
+            }
+        } catch (err) {
+            handleError("Failed to add the document", err);
+        } finally {
+            setProcessingFile(null);
+        }
+        await refreshDocuments(storeName);
+    };
+
+    const handleDeleteDocument = async (docName: string) => {
+        if (!activeRagStoreName) return;
+        const storeName = activeRagStoreName;
+        setIsDocumentsLoading(true);
+        try {
+            await getProvider().deleteDocument(docName);
+        } catch (err) {
+            console.error("Failed to delete document", err);
+        }
+        await refreshDocuments(storeName);
+    };
+
+    const canAsk = !isReadOnly && (searchSource === SearchSource.GoogleSearch || !!activeRagStoreName);
+
+    // Splits inline filters such as "brand:Hyundai" off the question; web searches take no filters.
+    // A message with nothing but filters asks for an overview instead of sending the filter syntax as the question.
+    const parseQuestion = (message: string, chipFilters: MetadataFilter[] = []) => {
+        if (searchSource === SearchSource.GoogleSearch) return { query: message, filters: [] };
+        const knownKeys = searchedDocuments.flatMap(doc => doc.customMetadata || []).flatMap(meta => meta.key ? [meta.key] : []);
+        const parsed = parseInlineFilters(message, knownKeys);
+        return { query: parsed.query || FILTER_ONLY_QUERY, filters: [...chipFilters, ...parsed.filters] };
+    };
+
+    // Adds a question under `parentId` and answers it. `earlierTurns` are the messages before it.
+    const sendQuestion = async (message: string, chipFilters: MetadataFilter[], parentId: string, earlierTurns: ChatMessage[]) => {
+        if (!canAsk) return;
+
+        if (!activeSession) {
+            const title = message.length > 60 ? `${message.slice(0, 57)}...` : message;
+            setActiveSession({ id: crypto.randomUUID(), title, createdAt: Date.now() });
+        }
+
+        const { query, filters } = parseQuestion(message, chipFilters);
+        const userMessage: ChatMessage = {
+            role: 'user',
+            parts: [{ text: message }],
+            filters: filters.length > 0 ? filters : undefined,
+        };
+        const userId = crypto.randomUUID();
+        setChatTree(prev => addMessage(prev, parentId, userId, userMessage));
+        await answerQuestion(userId, query, filters, earlierTurns);
+    };
+
+    // Streams a new answer to the question `userId`. Earlier answers to it stay as branches.
+    const answerQuestion = async (userId: string, query: string, filters: MetadataFilter[], earlierTurns: ChatMessage[]) => {
+        const priorTurns = settings.isConversationMode ? trimHistory(earlierTurns, settings.historyTokenBudget) : [];
+        setChatTree(prev => clearActiveChild(prev, userId));
         setIsQueryLoading(true);
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        const modelId = crypto.randomUUID();
+        let isAdded = false;
+        const updateModelMessage = (next: ChatMessage) => {
+            // The chat was ended while this request was in flight; drop late updates.
+            if (abortControllerRef.current !== abortController) return;
+            const add = !isAdded;
+            isAdded = true;
+            setChatTree(prev => add ? addMessage(prev, userId, modelId, next) : updateMessage(prev, modelId, () => next));
+        };
+
         try {
+            // Resolve follow-ups like "and the rear seats?" so retrieval sees the full question.
+            let resolvedQuery = query;
+            if (priorTurns.length > 0) {
+                resolvedQuery = await getProvider().rewriteStandaloneQuestion(priorTurns, query, generationSettings);
+                if (resolvedQuery !== query) {
+                    setChatTree(prev => updateMessage(prev, userId, m => ({ ...m, rewrittenQuery: resolvedQuery })));
+                }
+            }
+
+            const onUpdate = (partial: QueryResult) => updateModelMessage({
+                role: 'model',
+                parts: [{ text: partial.text }],
+                groundingChunks: partial.groundingChunks,
+                groundingSupports: partial.groundingSupports,
+                isStreaming: true,
+            });
+
+            const storeNames = queryStores.length > 0 ? queryStores.map(store => store.name) : [activeRagStoreName!];
+            const metadataFilter = buildMetadataFilter(filters, listMetadataKeys(searchedDocuments));
             let result;
             if (searchSource === SearchSource.FileSearch) {
-                result = await geminiService.fileSearch(activeRagStoreName!, message);
+                result = await getProvider().fileSearchStream(storeNames, resolvedQuery, metadataFilter, priorTurns, generationSettings, onUpdate, abortController.signal);
+            } else if (searchSource === SearchSource.Hybrid) {
+                result = await hybridSearchStream(getProvider(), storeNames, resolvedQuery, metadataFilter, priorTurns, generationSettings, onUpdate, abortController.signal);
             } else {
-                result = await geminiService.googleSearch(message);
+                result = await getProvider().webSearchStream(resolvedQuery, priorTurns, generationSettings, onUpdate, abortController.signal);
             }
             
-            const modelMessage: ChatMessage = {
+            updateModelMessage({
                 role: 'model',
                 parts: [{ text: result.text }],
-                groundingChunks: result.groundingChunks
-            };
-            setChatHistory(prev => [...prev, modelMessage]);
+                groundingChunks: result.groundingChunks,
+                groundingSupports: result.groundingSupports,
+                model: generationSettings.model,
+                promptTemplateId: generationSettings.promptTemplate?.id,
+                isStopped: abortController.signal.aborted || undefined,
+            });
         } catch (err) {
-            const errorMessage: ChatMessage = {
+            updateModelMessage({
                 role: 'model',
-                parts: [{ text: "Sorry, I encountered an error. Please try again." }]
-            };
-            setChatHistory(prev => [...prev, errorMessage]);
-            handleError("Failed to get response", err);
+                parts: [{ text: "Sorry, I encountered an error. Please try again." }],
+                isError: true,
+            });
+            if (abortControllerRef.current === abortController) {
+                handleError("Failed to get response", err);
+            }
         } finally {
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
             setIsQueryLoading(false);
         }
     };
 
+    const handleSendMessage = (message: string, chipFilters: MetadataFilter[] = []) =>
+        sendQuestion(message, chipFilters, pathIds[pathIds.length - 1] ?? ROOT_ID, chatHistory);
+
+    // Sends an edited copy of the question at `index` as an alternative to the original.
+    const handleEditMessage = (index: number, text: string) => {
+        const original = chatHistory[index];
+        if (isQueryLoading || original?.role !== 'user' || !text.trim()) return;
+        // Keep the filter chips the question was sent with; inline filters are re-read from the new text.
+        const inline = parseQuestion(original.parts.map(part => part.text).join('')).filters;
+        const chipFilters = (original.filters || []).filter(filter =>
+            !inline.some(other => other.key === filter.key && other.operator === filter.operator && other.value === filter.value));
+        sendQuestion(text.trim(), chipFilters, parentOf(chatTree, pathIds[index]), chatHistory.slice(0, index));
+    };
+
+    // Asks the question before the answer at `index` again, keeping the old answer as a branch.
+    const handleRegenerate = (index: number) => {
+        const question = chatHistory[index - 1];
+        if (!canAsk || isQueryLoading || question?.role !== 'user') return;
+        const { query } = parseQuestion(question.parts.map(part => part.text).join(''));
+        answerQuestion(pathIds[index - 1], query, question.filters || [], chatHistory.slice(0, index - 1));
+    };
+
+    const handleSwitchBranch = (index: number, offset: number) => {
+        if (isQueryLoading || !pathIds[index]) return;
+        setChatTree(prev => switchBranch(prev, pathIds[index], offset));
+    };
+
+    // Stores the rating with the question, answer and sources so it can be exported as a test case.
+    const handleFeedback = async (index: number, input: FeedbackInput | null) => {
+        const id = pathIds[index];
+        const answer = chatHistory[index];
+        const question = chatHistory[index - 1];
+        if (!id || answer?.role !== 'model' || question?.role !== 'user') return;
+
+        if (!input) {
+            setSessionFeedback(({ [id]: _removed, ...rest }) => rest);
+            try {
+                await feedbackStore.deleteFeedback(id);
+            } catch (err) {
+                console.error("Failed to delete feedback", err);
+            }
+            return;
+        }
+
+        const now = Date.now();
+        const templateId = answer.promptTemplateId || settings.promptTemplateId;
+        const entry: AnswerFeedback = {
+            id,
+            sessionId: activeSession?.id ?? null,
+            createdAt: sessionFeedback[id]?.createdAt ?? now,
+            updatedAt: now,
+            rating: input.rating,
+            comment: input.comment,
+            wrongSource: input.wrongSource,
+            query: question.parts.map(part => part.text).join(''),
+            rewrittenQuery: question.rewrittenQuery,
+            filters: question.filters,
+            answer: answer.parts.map(part => part.text).join(''),
+            // Answers saved before these were recorded fall back to the current settings.
+            model: answer.model || settings.generation.model,
+            promptTemplateId: templateId,
+            promptTemplateName: promptTemplates.find(template => template.id === templateId)?.name || templateId,
+            searchSource,
+            documentName,
+            ragStoreNames: searchSource === SearchSource.GoogleSearch ? [] : queryStores.map(store => store.name),
+            groundingChunks: answer.groundingChunks || [],
+        };
+        setSessionFeedback(prev => ({ ...prev, [id]: entry }));
+        try {
+            await feedbackStore.saveFeedback(entry);
+        } catch (err) {
+            console.error("Failed to save feedback", err);
+        }
+    };
+
+    const handleFeedbackClick = async () => {
+        setIsFeedbackModalOpen(true);
+        setIsFeedbackLoading(true);
+        try {
+            setFeedbackLog(await feedbackStore.listFeedback());
+        } catch (err) {
+            console.error("Failed to load feedback", err);
+        } finally {
+            setIsFeedbackLoading(false);
+        }
+    };
+
+    const handleDeleteFeedback = async (id: string) => {
+        setFeedbackLog(prev => prev.filter(entry => entry.id !== id));
+        setSessionFeedback(({ [id]: _removed, ...rest }) => rest);
+        try {
+            await feedbackStore.deleteFeedback(id);
+        } catch (err) {
+            console.error("Failed to delete feedback", err);
+        }
+    };
+
+    const handleExportFeedback = (entries: AnswerFeedback[]) => {
+        downloadFile(feedbackStore.feedbackToJsonl(entries), exportFileName('feedback', 'jsonl'), 'application/jsonl');
+    };
+
+    const handleStopGenerating = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleSwitchSource = async (source: SearchSource) => {
         if (source === searchSource) return;
 
+        // File Search and Hybrid both search the open library, so the conversation carries on.
+        if (source !== SearchSource.GoogleSearch && searchSource !== SearchSource.GoogleSearch) {
+            setSearchSource(source);
+            return;
+        }
+
         handleEndChat(); // Clear existing session
         setSearchSource(source);
 
         if (source === SearchSource.GoogleSearch) {
             setIsQueryLoading(true);
             try {
-                const questions = await geminiService.generateGoogleSearchQuestions();
+                const questions = await getProvider().generateWebSearchQuestions();
                 setExampleQuestions(questions);
             } catch (err) {
                 console.error("Failed to get Google Search questions", err);
@@ -201,26 +889,92 @@ const App: React.FC = () => {
             case AppStatus.Chatting:
             case AppStatus.Uploading: // Keep ChatInterface visible during upload
                  return (
-                    <>
-                        <ChatInterface 
-                            documentName={searchSource === SearchSource.FileSearch ? documentName : 'Google Search'}
-                            history={chatHistory}
-                            isQueryLoading={isQueryLoading}
-                            onSendMessage={handleSendMessage}
+                    <div className="flex">
+                        <SessionSidebar
+                            sessions={sessions}
+                            activeSessionId={activeSession?.id ?? null}
+                            isOpen={isSidebarOpen}
+                            onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
+                            onSelect={handleSelectSession}
+                            onRename={handleRenameSession}
+                            onDelete={handleDeleteSession}
                             onNewChat={handleEndChat}
-                            exampleQuestions={exampleQuestions}
-                            onSwitchSource={handleSwitchSource}
-                            searchSource={searchSource}
-                            isChatActive={!!activeRagStoreName || searchSource === SearchSource.GoogleSearch}
-                            onFileSearchClick={handleFileSearchClick}
+                            onImport={handleImportSession}
                         />
+                        <div className="flex-grow min-w-0">
+                            <ChatInterface 
+                                documentName={searchSource === SearchSource.GoogleSearch ? 'Google Search' : documentName}
+                                history={chatHistory}
+                                isQueryLoading={isQueryLoading}
+                                onSendMessage={handleSendMessage}
+                                branches={pathIds.map(id => branchPosition(chatTree, id))}
+                                onEditMessage={handleEditMessage}
+                                onRegenerate={handleRegenerate}
+                                onSwitchBranch={handleSwitchBranch}
+                                feedback={pathIds.map(id => sessionFeedback[id])}
+                                onFeedback={handleFeedback}
+                                onFeedbackClick={handleFeedbackClick}
+                                onStopGenerating={handleStopGenerating}
+                                onExport={handleExport}
+                                onNewChat={handleEndChat}
+                                exampleQuestions={exampleQuestions}
+                                onSwitchSource={handleSwitchSource}
+                                searchSource={searchSource}
+                                isChatActive={!!activeRagStoreName || searchSource === SearchSource.GoogleSearch || isReadOnly}
+                                isReadOnly={isReadOnly}
+                                onFileSearchClick={handleFileSearchClick}
+                                onLibraryClick={handleLibraryClick}
+                                settings={settings}
+                                onSettingsChange={setSettings}
+                                systemPrompt={systemPrompt}
+                                onSystemPromptChange={setSystemPrompt}
+                                promptTemplates={promptTemplates}
+                                onPromptTemplatesChange={templates => setCustomTemplates(toCustomTemplates(templates))}
+                                activeStore={queryStores[0] || null}
+                                queryStores={searchSource === SearchSource.GoogleSearch ? [] : queryStores}
+                                documents={documents}
+                                searchedDocuments={searchedDocuments}
+                                isDocumentsLoading={isDocumentsLoading}
+                                processingFile={processingFile}
+                                onUploadDocument={handleUploadDocument}
+                                onDeleteDocument={handleDeleteDocument}
+                                localFiles={localFiles}
+                            />
+                        </div>
                         <UploadModal
                             isOpen={isUploadModalOpen}
                             onClose={() => setIsUploadModalOpen(false)}
                             onUpload={handleUploadAndStartChat}
                             uploadProgress={uploadProgress}
+                            onCancelUpload={handleCancelUpload}
+                            onRetryFailed={handleRetryFailedUploads}
+                            onStartWithUploaded={handleStartWithUploaded}
+                            onDiscardUpload={handleDiscardUpload}
+                            corsProxyUrl={settings.corsProxyUrl}
+                            onCorsProxyUrlChange={corsProxyUrl => setSettings(prev => ({ ...prev, corsProxyUrl }))}
                         />
-                    </>
+                        <LibraryModal
+                            isOpen={isLibraryModalOpen}
+                            onClose={() => setIsLibraryModalOpen(false)}
+                            stores={ragStores}
+                            activeStoreName={activeRagStoreName}
+                            queryStoreNames={queryStores.map(store => store.name)}
+                            isLoading={isStoresLoading}
+                            onCreate={handleCreateStore}
+                            onOpen={handleOpenStore}
+                            onOpenSet={handleOpenStores}
+                            onDelete={handleDeleteStore}
+                            onRefresh={refreshRagStores}
+                        />
+                        <FeedbackModal
+                            isOpen={isFeedbackModalOpen}
+                            onClose={() => setIsFeedbackModalOpen(false)}
+                            entries={feedbackLog}
+                            isLoading={isFeedbackLoading}
+                            onDelete={handleDeleteFeedback}
+                            onExport={handleExportFeedback}
+                        />
+                    </div>
                  );
             case AppStatus.Error:
                  return (
@@ -3,26 +3,71 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage, SearchSource } from '../types';
+import { ChatMessage, SearchSource, RagStore, Document, CustomMetadata, MetadataFilter, GroundingChunk, PromptTemplate, AnswerFeedback, FeedbackInput, FeedbackRating } from '../types';
+import { collectMetadataFilters, formatFilter, isSameFilter } from '../services/metadataFilter';
+import { insertCitationMarkers, renderCitationMarkers } from '../services/citations';
+import { ExportFormat } from '../services/exportConversation';
+import { renderMarkdown } from '../services/markdown';
+import { AppSettings } from '../services/settings';
 import Spinner from './Spinner';
 import SendIcon from './icons/SendIcon';
+import StopIcon from './icons/StopIcon';
 import RefreshIcon from './icons/RefreshIcon';
 import SettingsIcon from './icons/SettingsIcon';
 import SearchIcon from './icons/SearchIcon';
 import FileIcon from './icons/FileIcon';
 import UploadCloudIcon from './icons/UploadCloudIcon';
+import LibraryIcon from './icons/LibraryIcon';
+import ThumbUpIcon from './icons/ThumbUpIcon';
+import ThumbDownIcon from './icons/ThumbDownIcon';
+import DocumentList from './DocumentList';
+import SourceViewer from './SourceViewer';
+import SettingsPanel from './SettingsPanel';
+import PromptTemplateModal from './PromptTemplateModal';
 
 interface ChatInterfaceProps {
     documentName: string;
     history: ChatMessage[];
     isQueryLoading: boolean;
-    onSendMessage: (message: string) => void;
+    onSendMessage: (message: string, filters: MetadataFilter[]) => void;
+    /** Where each message sits among its alternatives, aligned with `history`. */
+    branches: { index: number; count: number }[];
+    onEditMessage: (index: number, text: string) => void;
+    onRegenerate: (index: number) => void;
+    onSwitchBranch: (index: number, offset: number) => void;
+    /** Saved feedback for each message, aligned with `history`. */
+    feedback: (AnswerFeedback | undefined)[];
+    /** Rates the answer at `index`; `null` removes the rating. */
+    onFeedback: (index: number, input: FeedbackInput | null) => void;
+    onFeedbackClick: () => void;
+    onStopGenerating: () => void;
+    onExport: (format: ExportFormat) => void;
     onNewChat: () => void;
     exampleQuestions: string[];
     onSwitchSource: (source: SearchSource) => void;
     searchSource: SearchSource;
     isChatActive: boolean;
+    isReadOnly: boolean;
     onFileSearchClick: () => void;
+    onLibraryClick: () => void;
+    settings: AppSettings;
+    onSettingsChange: (settings: AppSettings) => void;
+    systemPrompt: string;
+    onSystemPromptChange: (prompt: string) => void;
+    promptTemplates: PromptTemplate[];
+    onPromptTemplatesChange: (templates: PromptTemplate[]) => void;
+    activeStore: RagStore | null;
+    /** Libraries the chat searches; shown in the header, and on sources when there is more than one. */
+    queryStores: RagStore[];
+    /** Documents of the active library, managed in the documents panel. */
+    documents: Document[];
+    /** Documents of every library the chat searches, for the filter chips. */
+    searchedDocuments: Document[];
+    isDocumentsLoading: boolean;
+    processingFile: string | null;
+    onUploadDocument: (file: File, metadata: CustomMetadata[]) => void;
+    onDeleteDocument: (docName: string) => void;
+    localFiles: Record<string, File>;
 }
 
 const welcomeTitles = [
@@ -36,16 +81,28 @@ const welcomeTitles = [
 
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
-    documentName, history, isQueryLoading, onSendMessage, onNewChat, 
-    exampleQuestions, onSwitchSource, searchSource, isChatActive, onFileSearchClick 
+    documentName, history, isQueryLoading, onSendMessage, branches, onEditMessage, onRegenerate, onSwitchBranch, feedback, onFeedback, onFeedbackClick, onStopGenerating, onExport, onNewChat, 
+    exampleQuestions, onSwitchSource, searchSource, isChatActive, isReadOnly, onFileSearchClick, onLibraryClick,
+    settings, onSettingsChange, systemPrompt, onSystemPromptChange, promptTemplates, onPromptTemplatesChange,
+    activeStore, queryStores, documents, searchedDocuments, isDocumentsLoading, processingFile, onUploadDocument, onDeleteDocument,
+    localFiles
 }) => {
     const [query, setQuery] = useState('');
+    const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+    // Comment and wrong-source flag being added to a rating.
+    const [feedbackDraft, setFeedbackDraft] = useState<({ index: number } & FeedbackInput) | null>(null);
     const [currentSuggestion, setCurrentSuggestion] = useState('');
-    const [modalContent, setModalContent] = useState<string | null>(null);
+    const [sourceView, setSourceView] = useState<{ chunk: GroundingChunk; index: number } | null>(null);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
     const [welcomeTitle, setWelcomeTitle] = useState('');
+    const [isDocumentsOpen, setIsDocumentsOpen] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [activeFilters, setActiveFilters] = useState<MetadataFilter[]>([]);
+    const [highlightedSource, setHighlightedSource] = useState<{ messageIndex: number; chunkIndex: number } | null>(null);
     const chatEndRef = useRef<HTMLDivElement>(null);
     const settingsRef = useRef<HTMLDivElement>(null);
+    const exportRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         setWelcomeTitle(welcomeTitles[Math.floor(Math.random() * welcomeTitles.length)]);
@@ -72,6 +129,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             if (settingsRef.current && !settingsRef.current.contains(event.target as Node)) {
                 setIsSettingsOpen(false);
             }
+            if (exportRef.current && !exportRef.current.contains(event.target as Node)) {
+                setIsExportOpen(false);
+            }
         };
 
         document.addEventListener('mousedown', handleClickOutside);
@@ -80,84 +140,148 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         };
     }, []);
     
-    const renderMarkdown = (text: string) => {
-        if (!text) return { __html: '' };
-
-        const lines = text.split('\n');
-        let html = '';
-        let listType: 'ul' | 'ol' | null = null;
-        let paraBuffer = '';
-
-        function flushPara() {
-            if (paraBuffer) {
-                html += `<p class="my-2">${paraBuffer}</p>`;
-                paraBuffer = '';
-            }
-        }
+    const renderMessage = (text: string) => ({ __html: renderCitationMarkers(renderMarkdown(text)) });
 
-        function flushList() {
-            if (listType) {
-                html += `</${listType}>`;
-                listType = null;
-            }
-        }
+    // Copy buttons are plain HTML from the markdown renderer, so clicks are handled by delegation.
+    const handleCopyCode = (event: React.MouseEvent): boolean => {
+        const button = (event.target as HTMLElement).closest?.('[data-copy-code]') as HTMLButtonElement | null;
+        if (!button) return false;
+        const code = button.closest('.code-block')?.querySelector('code')?.textContent || '';
+        navigator.clipboard.writeText(code)
+            .then(() => {
+                button.textContent = 'Copied!';
+                setTimeout(() => { button.textContent = 'Copy'; }, 1500);
+            })
+            .catch(err => console.error("Failed to copy code block", err));
+        return true;
+    };
 
-        for (const rawLine of lines) {
-            const line = rawLine
-                .replace(/\*\*(.*?)\*\*|__(.*?)__/g, '<strong>$1$2</strong>')
-                .replace(/\*(.*?)\*|_(.*?)_/g, '<em>$1$2</em>')
-                .replace(/`([^`]+)`/g, '<code class="bg-gem-mist/50 px-1 py-0.5 rounded-sm font-mono text-sm">$1</code>');
-
-            const isOl = line.match(/^\s*\d+\.\s(.*)/);
-            const isUl = line.match(/^\s*[\*\-]\s(.*)/);
-
-            if (isOl) {
-                flushPara();
-                if (listType !== 'ol') {
-                    flushList();
-                    html += '<ol class="list-decimal list-inside my-2 pl-5 space-y-1">';
-                    listType = 'ol';
-                }
-                html += `<li>${isOl[1]}</li>`;
-            } else if (isUl) {
-                flushPara();
-                if (listType !== 'ul') {
-                    flushList();
-                    html += '<ul class="list-disc list-inside my-2 pl-5 space-y-1">';
-                    listType = 'ul';
-                }
-                html += `<li>${isUl[1]}</li>`;
-            } else {
-                flushList();
-                if (line.trim() === '') {
-                    flushPara();
-                } else {
-                    paraBuffer += (paraBuffer ? '<br/>' : '') + line;
-                }
-            }
+    const getCitationIndex = (event: React.SyntheticEvent): number | null => {
+        const marker = (event.target as HTMLElement).closest?.('[data-chunk-index]') as HTMLElement | null;
+        return marker ? Number(marker.dataset.chunkIndex) : null;
+    };
+
+    const handleCitationHover = (messageIndex: number, event: React.MouseEvent) => {
+        const chunkIndex = getCitationIndex(event);
+        setHighlightedSource(chunkIndex === null ? null : { messageIndex, chunkIndex });
+    };
+
+    const handleCitationClick = (message: ChatMessage, event: React.MouseEvent) => {
+        if (handleCopyCode(event)) return;
+        const chunkIndex = getCitationIndex(event);
+        if (chunkIndex === null) return;
+        const chunk = message.groundingChunks?.[chunkIndex];
+        if (chunk?.retrievedContext?.text) {
+            handleSourceClick(chunk, chunkIndex);
+        } else if (chunk?.web?.uri) {
+            window.open(chunk.web.uri, '_blank', 'noopener,noreferrer');
         }
+    };
+
+    const isSourceHighlighted = (messageIndex: number, chunkIndex: number) =>
+        highlightedSource?.messageIndex === messageIndex && highlightedSource.chunkIndex === chunkIndex;
+
 
-        flushPara();
-        flushList();
+    const isStreaming = history.length > 0 && !!history[history.length - 1].isStreaming;
+
+    const availableFilters = searchSource !== SearchSource.GoogleSearch ? collectMetadataFilters(searchedDocuments) : [];
+
+    useEffect(() => {
+        setActiveFilters([]);
+    }, [activeStore?.name, searchSource]);
 
-        return { __html: html };
+    const toggleFilter = (filter: MetadataFilter) => {
+        setActiveFilters(prev => prev.some(f => isSameFilter(f, filter))
+            ? prev.filter(f => !isSameFilter(f, filter))
+            : [...prev, filter]);
     };
 
+    const handleDeleteDocument = (docName: string) => {
+        const doc = documents.find(d => d.name === docName);
+        if (window.confirm(`Remove "${doc?.displayName || docName}" from this library?`)) {
+            onDeleteDocument(docName);
+        }
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (query.trim() && isChatActive) {
-            onSendMessage(query);
+        if (query.trim() && isChatActive && !isReadOnly) {
+            onSendMessage(query, activeFilters);
             setQuery('');
         }
     };
 
-    const handleSourceClick = (text: string) => {
-        setModalContent(text);
+    const handleEditSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (editing && editing.text.trim()) {
+            onEditMessage(editing.index, editing.text);
+            setEditing(null);
+        }
+    };
+
+    // Switching branches can put a different question at the index being edited.
+    useEffect(() => {
+        setEditing(null);
+        setFeedbackDraft(null);
+    }, [branches.map(branch => branch.index).join()]);
+
+    // Rating saves at once; the details form stays open for an optional comment. Clicking the same thumb again removes the rating.
+    const handleRate = (index: number, rating: FeedbackRating) => {
+        const current = feedback[index];
+        if (current?.rating === rating) {
+            onFeedback(index, null);
+            setFeedbackDraft(null);
+            return;
+        }
+        const input: FeedbackInput = { rating, comment: current?.comment, wrongSource: current?.wrongSource };
+        onFeedback(index, input);
+        setFeedbackDraft({ index, ...input });
+    };
+
+    const handleFeedbackSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!feedbackDraft) return;
+        const { index, ...input } = feedbackDraft;
+        onFeedback(index, { ...input, comment: input.comment?.trim() || undefined, wrongSource: input.wrongSource || undefined });
+        setFeedbackDraft(null);
+    };
+
+    const canChangeMessages = isChatActive && !isReadOnly;
+
+    const handleSourceClick = (chunk: GroundingChunk, index: number) => {
+        setSourceView({ chunk, index });
     };
 
     const closeModal = () => {
-        setModalContent(null);
+        setSourceView(null);
+    };
+
+    // Uploaded documents are named after their file, so the chunk title points back at the local copy.
+    const findLocalFile = (chunk: GroundingChunk): File | undefined => {
+        const title = chunk.retrievedContext?.title;
+        if (!title) return undefined;
+        const name = Object.keys(localFiles).find(key => key.toLowerCase() === title.toLowerCase());
+        return name ? localFiles[name] : undefined;
+    };
+
+    // Hybrid answers mix document and web sources, so each chip says which kind it is.
+    const hasMixedSources = (message: ChatMessage) => {
+        const chunks = message.groundingChunks || [];
+        return chunks.some(chunk => chunk.web?.uri) && chunks.some(chunk => chunk.retrievedContext);
+    };
+
+    // Sources name their library when a chat searches several. Libraries that are no longer open fall back to their id.
+    const storeLabel = (chunk: GroundingChunk, message: ChatMessage): string | null => {
+        const storeName = chunk.retrievedContext?.fileSearchStore;
+        if (!storeName) return null;
+        const storeNames = new Set((message.groundingChunks || []).map(c => c.retrievedContext?.fileSearchStore).filter(Boolean));
+        if (queryStores.length < 2 && storeNames.size < 2) return null;
+        return queryStores.find(store => store.name === storeName)?.displayName || storeName.split('/').pop() || storeName;
+    };
+
+    const describeSource = (chunk: GroundingChunk, index: number, library?: string | null): string => {
+        const { title, pageNumber } = chunk.retrievedContext || {};
+        return [`Source ${index + 1}`, library, title, pageNumber ? `page ${pageNumber}` : null].filter(Boolean).join(' · ');
     };
 
     useEffect(() => {
@@ -172,13 +296,67 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                         <h1 className="text-2xl font-bold text-gem-offwhite">
                             MnemoMind
                         </h1>
-                         {isChatActive && (
+                         {isChatActive && queryStores.length === 0 && (
                             <span className="text-lg text-gem-offwhite/70 truncate" title={documentName}>
-                                {searchSource === SearchSource.FileSearch ? 'chat with your document' : 'ask google search'}
+                                {isReadOnly ? 'read-only conversation' : searchSource === SearchSource.FileSearch ? 'chat with your document' : searchSource === SearchSource.Hybrid ? 'your documents + google search' : 'ask google search'}
                             </span>
                         )}
+                         {isChatActive && queryStores.length > 0 && (
+                            <button
+                                onClick={onLibraryClick}
+                                className="flex items-center gap-1 min-w-0 truncate"
+                                title={`Searching ${queryStores.map(store => store.displayName).join(', ')}${searchSource === SearchSource.Hybrid ? ' and Google Search' : ''}. Click to change.`}
+                            >
+                                {queryStores.slice(0, 3).map(store => (
+                                    <span key={store.name} className="text-sm px-2 py-0.5 rounded-full bg-gem-mist text-gem-offwhite/80 truncate max-w-[10rem]">
+                                        {store.displayName}
+                                    </span>
+                                ))}
+                                {queryStores.length > 3 && (
+                                    <span className="text-sm text-gem-offwhite/60">+{queryStores.length - 3}</span>
+                                )}
+                                {searchSource === SearchSource.Hybrid && (
+                                    <span className="text-sm text-gem-offwhite/60 whitespace-nowrap">+ Google Search</span>
+                                )}
+                            </button>
+                        )}
                     </div>
                     <div className="flex items-center space-x-2">
+                         {activeStore && searchSource !== SearchSource.GoogleSearch && (
+                            <button
+                                onClick={() => setIsDocumentsOpen(!isDocumentsOpen)}
+                                className={`flex items-center px-4 py-2 rounded-full transition-colors flex-shrink-0 ${isDocumentsOpen ? 'bg-gem-mist' : 'hover:bg-gem-mist'}`}
+                                title="Manage the documents in this library"
+                            >
+                                <FileIcon />
+                                <span className="ml-2 hidden sm:inline">Documents ({documents.length})</span>
+                            </button>
+                        )}
+                         {history.length > 0 && (
+                            <div className="relative" ref={exportRef}>
+                                <button
+                                    onClick={() => setIsExportOpen(!isExportOpen)}
+                                    className="px-4 py-2 rounded-full hover:bg-gem-mist transition-colors flex-shrink-0"
+                                    title="Export this conversation with its sources"
+                                    disabled={isStreaming}
+                                >
+                                    Export
+                                </button>
+                                {isExportOpen && (
+                                    <div className="settings-menu">
+                                        <button onClick={() => { onExport('markdown'); setIsExportOpen(false); }} className="settings-menu-item" title="Markdown with footnotes">
+                                            Markdown
+                                        </button>
+                                        <button onClick={() => { onExport('html'); setIsExportOpen(false); }} className="settings-menu-item" title="Standalone HTML page">
+                                            HTML
+                                        </button>
+                                        <button onClick={() => { onExport('json'); setIsExportOpen(false); }} className="settings-menu-item" title="JSON that can be imported again from the history sidebar">
+                                            JSON
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                          {isChatActive && (
                             <button
                                 onClick={onNewChat}
@@ -198,13 +376,31 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 <SettingsIcon />
                             </button>
                              {isSettingsOpen && (
-                                <div className="settings-menu">
+                                <div className="settings-menu settings-menu-wide">
                                      <button onClick={() => { onFileSearchClick(); setIsSettingsOpen(false); }} className="settings-menu-item flex items-center space-x-2">
                                         <FileIcon /> <span>File Search</span>
+                                    </button>
+                                     <button onClick={() => { onLibraryClick(); setIsSettingsOpen(false); }} className="settings-menu-item flex items-center space-x-2">
+                                        <LibraryIcon /> <span>Libraries</span>
                                     </button>
                                      <button onClick={() => { onSwitchSource(SearchSource.GoogleSearch); setIsSettingsOpen(false); }} className="settings-menu-item flex items-center space-x-2">
                                         <SearchIcon /> <span>Google Search</span>
                                     </button>
+                                     <button onClick={() => { onSwitchSource(SearchSource.Hybrid); setIsSettingsOpen(false); }} className="settings-menu-item flex items-center space-x-2" title="Answer from your documents and the web together">
+                                        <SearchIcon /> <span>Documents + Web</span>
+                                    </button>
+                                     <button onClick={() => { onFeedbackClick(); setIsSettingsOpen(false); }} className="settings-menu-item flex items-center space-x-2" title="Review rated answers and export them">
+                                        <ThumbUpIcon /> <span>Feedback</span>
+                                    </button>
+                                    <div className="border-t border-gem-mist my-2" />
+                                    <SettingsPanel
+                                        settings={settings}
+                                        onSettingsChange={onSettingsChange}
+                                        systemPrompt={systemPrompt}
+                                        onSystemPromptChange={onSystemPromptChange}
+                                        promptTemplates={promptTemplates}
+                                        onEditPromptTemplates={() => { setIsPromptEditorOpen(true); setIsSettingsOpen(false); }}
+                                    />
                                 </div>
                             )}
                         </div>
@@ -212,6 +408,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
             </header>
 
+            {isDocumentsOpen && activeStore && searchSource !== SearchSource.GoogleSearch && (
+                <aside className="absolute top-20 right-4 bottom-36 w-80 max-w-[calc(100%-2rem)] bg-gem-slate border border-gem-mist rounded-lg shadow-xl p-4 z-20 flex flex-col">
+                    <DocumentList
+                        selectedStore={activeStore}
+                        documents={documents}
+                        isLoading={isDocumentsLoading}
+                        processingFile={processingFile}
+                        onUpload={onUploadDocument}
+                        onDelete={handleDeleteDocument}
+                    />
+                </aside>
+            )}
+
             <div className="flex-grow pt-24 pb-32 overflow-y-auto px-4">
                  <div className="w-full max-w-4xl mx-auto space-y-6">
                     {!isChatActive && (
@@ -222,6 +431,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                     <FileIcon className="mr-2"/>
                                     Upload Document
                                 </button>
+                                <button onClick={onLibraryClick} className="flex items-center px-6 py-3 bg-gem-slate hover:bg-gem-mist transition-colors rounded-lg text-lg font-semibold">
+                                    <LibraryIcon className="mr-2"/>
+                                    Open Library
+                                </button>
                                 <button onClick={() => onSwitchSource(SearchSource.GoogleSearch)} className="flex items-center px-6 py-3 bg-gem-slate hover:bg-gem-mist transition-colors rounded-lg text-lg font-semibold">
                                     <SearchIcon className="mr-2"/>
                                     Use Google Search
@@ -230,42 +443,96 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                         </div>
                     )}
                     {history.map((message, index) => (
-                        <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div key={index} className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
                             <div className={`max-w-xl lg:max-w-2xl px-5 py-3 rounded-2xl ${
                                 message.role === 'user' 
                                 ? 'bg-gem-blue text-white' 
                                 : 'bg-gem-slate'
                             }`}>
-                                <div dangerouslySetInnerHTML={renderMarkdown(message.parts[0].text)} />
+                                {message.isStreaming && !message.parts[0].text ? (
+                                    <Spinner />
+                                ) : editing?.index === index ? (
+                                    <form onSubmit={handleEditSubmit} className="flex flex-col gap-2 min-w-[16rem]">
+                                        <textarea
+                                            value={editing.text}
+                                            onChange={(e) => setEditing({ index, text: e.target.value })}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter' && !e.shiftKey) handleEditSubmit(e);
+                                                if (e.key === 'Escape') setEditing(null);
+                                            }}
+                                            rows={3}
+                                            autoFocus
+                                            aria-label="Edit question"
+                                            className="w-full bg-white/10 rounded-md p-2 text-white focus:outline-none focus:ring-2 focus:ring-white/50 resize-y"
+                                        />
+                                        <div className="flex justify-end gap-2 text-sm">
+                                            <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 rounded-md hover:bg-white/10 transition-colors">
+                                                Cancel
+                                            </button>
+                                            <button type="submit" disabled={isQueryLoading || !editing.text.trim()} className="px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 disabled:opacity-50 transition-colors" title="Send the edited question; the original stays as a branch">
+                                                Send
+                                            </button>
+                                        </div>
+                                    </form>
+                                ) : (
+                                    <div
+                                        className={message.isStreaming ? 'streaming-cursor' : undefined}
+                                        onMouseOver={(e) => handleCitationHover(index, e)}
+                                        onMouseLeave={() => setHighlightedSource(null)}
+                                        onClick={(e) => handleCitationClick(message, e)}
+                                        dangerouslySetInnerHTML={renderMessage(
+                                            message.role === 'model' && !message.isStreaming
+                                                ? insertCitationMarkers(message.parts[0].text, message.groundingSupports)
+                                                : message.parts[0].text
+                                        )}
+                                    />
+                                )}
+                                {message.isStopped && (
+                                    <p className="mt-2 text-xs text-gem-offwhite/60 italic">Response stopped.</p>
+                                )}
+                                {message.filters && message.filters.length > 0 && (
+                                    <div className="mt-2 flex flex-wrap gap-1 justify-end" title="Only documents matching these filters were searched">
+                                        {message.filters.map((filter, filterIndex) => (
+                                            <span key={filterIndex} className="text-xs px-2 py-0.5 rounded-full bg-white/20">
+                                                {formatFilter(filter)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                                 {message.role === 'model' && message.groundingChunks && message.groundingChunks.length > 0 && (
                                     <div className="mt-4 pt-3 border-t border-gem-mist/50">
                                         <h4 className="text-xs font-semibold text-gem-offwhite/70 mb-2 text-right">Sources:</h4>
                                         <div className="flex flex-wrap gap-2 justify-end">
                                             {message.groundingChunks.map((chunk, chunkIndex) => {
-                                                if (searchSource === SearchSource.FileSearch && chunk.retrievedContext?.text) {
+                                                const kindLabel = hasMixedSources(message) && (
+                                                    <span className="mr-1 uppercase text-[10px] font-semibold text-gem-offwhite/60">{chunk.web?.uri ? 'Web' : 'Doc'}</span>
+                                                );
+                                                if (chunk.retrievedContext?.text) {
+                                                    const library = storeLabel(chunk, message);
                                                     return (
                                                         <button
                                                             key={chunkIndex}
-                                                            onClick={() => handleSourceClick(chunk.retrievedContext!.text!)}
-                                                            className="bg-gem-mist/50 hover:bg-gem-mist text-xs px-3 py-1 rounded-md transition-colors"
+                                                            onClick={() => handleSourceClick(chunk, chunkIndex)}
+                                                            className={`bg-gem-mist/50 hover:bg-gem-mist text-xs px-3 py-1 rounded-md transition-colors ${isSourceHighlighted(index, chunkIndex) ? 'ring-2 ring-gem-blue bg-gem-mist' : ''}`}
                                                             aria-label={`View source ${chunkIndex + 1}`}
-                                                            title="View source document chunk"
+                                                            title={describeSource(chunk, chunkIndex, library)}
                                                         >
-                                                            Source {chunkIndex + 1}
+                                                            {kindLabel}Source {chunkIndex + 1}{chunk.retrievedContext.pageNumber ? ` · p. ${chunk.retrievedContext.pageNumber}` : ''}
+                                                            {library && <span className="ml-1 text-gem-blue">· {library}</span>}
                                                         </button>
                                                     )
                                                 }
-                                                if (searchSource === SearchSource.GoogleSearch && chunk.web?.uri) {
+                                                if (chunk.web?.uri) {
                                                     return (
                                                          <a
                                                             key={chunkIndex}
                                                             href={chunk.web.uri}
                                                             target="_blank"
                                                             rel="noopener noreferrer"
-                                                            className="bg-gem-mist/50 hover:bg-gem-mist text-xs px-3 py-1 rounded-md transition-colors block truncate max-w-[200px]"
+                                                            className={`bg-gem-mist/50 hover:bg-gem-mist text-xs px-3 py-1 rounded-md transition-colors block truncate max-w-[200px] ${isSourceHighlighted(index, chunkIndex) ? 'ring-2 ring-gem-blue bg-gem-mist' : ''}`}
                                                             title={chunk.web.title || chunk.web.uri}
                                                         >
-                                                            {chunk.web.title || `Source ${chunkIndex + 1}`}
+                                                            {kindLabel}{`${chunkIndex + 1}. ${chunk.web.title || 'Source'}`}
                                                         </a>
                                                     )
                                                 }
@@ -275,9 +542,118 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                     </div>
                                 )}
                             </div>
+                            {message.rewrittenQuery && (
+                                <p className="mt-1 px-2 text-xs text-gem-offwhite/60 italic max-w-xl lg:max-w-2xl" title="The question used for retrieval, with references to earlier messages resolved">
+                                    Searched as: {message.rewrittenQuery}
+                                </p>
+                            )}
+                            {!message.isStreaming && editing?.index !== index && (branches[index]?.count > 1 || canChangeMessages || message.role === 'model') && (
+                                <div className="mt-1 px-2 flex items-center gap-3 text-xs text-gem-offwhite/60">
+                                    {branches[index]?.count > 1 && (
+                                        <span className="flex items-center" aria-label={`Version ${branches[index].index + 1} of ${branches[index].count}`}>
+                                            <button
+                                                onClick={() => onSwitchBranch(index, -1)}
+                                                disabled={isQueryLoading || branches[index].index === 0}
+                                                className="px-1 hover:text-gem-offwhite disabled:opacity-40 transition-colors"
+                                                title="Show the previous version"
+                                            >
+                                                ‹
+                                            </button>
+                                            <span>{branches[index].index + 1}/{branches[index].count}</span>
+                                            <button
+                                                onClick={() => onSwitchBranch(index, 1)}
+                                                disabled={isQueryLoading || branches[index].index === branches[index].count - 1}
+                                                className="px-1 hover:text-gem-offwhite disabled:opacity-40 transition-colors"
+                                                title="Show the next version"
+                                            >
+                                                ›
+                                            </button>
+                                        </span>
+                                    )}
+                                    {canChangeMessages && message.role === 'user' && (
+                                        <button
+                                            onClick={() => setEditing({ index, text: message.parts.map(part => part.text).join('') })}
+                                            disabled={isQueryLoading}
+                                            className="hover:text-gem-offwhite disabled:opacity-40 transition-colors"
+                                            title="Edit this question and send it again; the original stays as a branch"
+                                        >
+                                            Edit
+                                        </button>
+                                    )}
+                                    {canChangeMessages && message.role === 'model' && index > 0 && (
+                                        <button
+                                            onClick={() => onRegenerate(index)}
+                                            disabled={isQueryLoading}
+                                            className="hover:text-gem-offwhite disabled:opacity-40 transition-colors"
+                                            title="Ask again for a different answer; this one stays as a branch"
+                                        >
+                                            Regenerate
+                                        </button>
+                                    )}
+                                    {message.role === 'model' && index > 0 && (
+                                        <span className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => handleRate(index, 'up')}
+                                                className={`p-1 rounded transition-colors ${feedback[index]?.rating === 'up' ? 'text-gem-teal' : 'hover:text-gem-offwhite'}`}
+                                                aria-pressed={feedback[index]?.rating === 'up'}
+                                                title={feedback[index]?.rating === 'up' ? 'Remove your rating' : 'Good answer'}
+                                            >
+                                                <ThumbUpIcon className={feedback[index]?.rating === 'up' ? 'fill-current' : ''} />
+                                            </button>
+                                            <button
+                                                onClick={() => handleRate(index, 'down')}
+                                                className={`p-1 rounded transition-colors ${feedback[index]?.rating === 'down' ? 'text-red-500' : 'hover:text-gem-offwhite'}`}
+                                                aria-pressed={feedback[index]?.rating === 'down'}
+                                                title={feedback[index]?.rating === 'down' ? 'Remove your rating' : 'Bad answer'}
+                                            >
+                                                <ThumbDownIcon className={feedback[index]?.rating === 'down' ? 'fill-current' : ''} />
+                                            </button>
+                                            {feedback[index] && feedbackDraft?.index !== index && (
+                                                <button
+                                                    onClick={() => setFeedbackDraft({ index, ...feedback[index]! })}
+                                                    className="hover:text-gem-offwhite transition-colors"
+                                                    title="Add a comment or flag a wrong source"
+                                                >
+                                                    {feedback[index]!.comment || feedback[index]!.wrongSource ? 'Edit feedback' : 'Add comment'}
+                                                </button>
+                                            )}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+                            {feedbackDraft?.index === index && (
+                                <form onSubmit={handleFeedbackSubmit} className="mt-2 w-full max-w-xl lg:max-w-2xl bg-gem-slate rounded-lg p-3 flex flex-col gap-2 text-sm">
+                                    <textarea
+                                        value={feedbackDraft.comment || ''}
+                                        onChange={(e) => setFeedbackDraft({ ...feedbackDraft, comment: e.target.value })}
+                                        rows={2}
+                                        placeholder={feedbackDraft.rating === 'up' ? 'What was good about this answer? (optional)' : 'What was wrong with this answer? (optional)'}
+                                        aria-label="Feedback comment"
+                                        className="w-full bg-gem-mist rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-gem-blue resize-y"
+                                    />
+                                    <div className="flex items-center justify-between gap-2">
+                                        <label className="flex items-center gap-2 text-gem-offwhite/80" title="The answer cites a source that does not support it">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!feedbackDraft.wrongSource}
+                                                onChange={(e) => setFeedbackDraft({ ...feedbackDraft, wrongSource: e.target.checked })}
+                                            />
+                                            Wrong source
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <button type="button" onClick={() => setFeedbackDraft(null)} className="px-3 py-1 rounded-md hover:bg-gem-mist transition-colors">
+                                                Close
+                                            </button>
+                                            <button type="submit" className="px-3 py-1 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors">
+                                                Save
+                                            </button>
+                                        </div>
+                                    </div>
+                                </form>
+                            )}
                         </div>
                     ))}
-                    {isQueryLoading && (
+                    {isQueryLoading && !isStreaming && (
                         <div className="flex justify-start">
                             <div className="max-w-xl lg:max-w-2xl px-5 py-3 rounded-2xl bg-gem-slate flex items-center">
                                 <Spinner />
@@ -291,7 +667,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <div className="absolute bottom-0 left-0 right-0 p-4 bg-gem-onyx/80 backdrop-blur-sm">
                  <div className="max-w-4xl mx-auto">
                     <div className="text-center mb-2 min-h-[3rem] flex items-center justify-center">
-                        {!isQueryLoading && currentSuggestion && isChatActive && (
+                        {!isQueryLoading && currentSuggestion && isChatActive && !isReadOnly && (
                             <button
                                 onClick={() => setQuery(currentSuggestion)}
                                 className="text-base text-gem-offwhite bg-gem-slate hover:bg-gem-mist transition-colors px-4 py-2 rounded-full"
@@ -301,6 +677,25 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             </button>
                         )}
                     </div>
+                    {isChatActive && availableFilters.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mb-2" aria-label="Filter by document metadata">
+                            <span className="text-xs text-gem-offwhite/60">Filter:</span>
+                            {availableFilters.map(filter => {
+                                const isActive = activeFilters.some(f => isSameFilter(f, filter));
+                                return (
+                                    <button
+                                        key={`${filter.key}-${filter.value}`}
+                                        onClick={() => toggleFilter(filter)}
+                                        className={`text-xs px-3 py-1 rounded-full transition-colors ${isActive ? 'bg-gem-blue text-white' : 'bg-gem-slate hover:bg-gem-mist'}`}
+                                        aria-pressed={isActive}
+                                        title={isActive ? 'Stop filtering on this value' : `Only search documents where ${formatFilter(filter)}`}
+                                    >
+                                        {formatFilter(filter)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
                      <form onSubmit={handleSubmit} className="flex items-center space-x-3">
                         <input
                             type="text"
@@ -308,42 +703,42 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             onChange={(e) => setQuery(e.target.value)}
                             placeholder={
                                 !isChatActive ? "Select a source from settings to begin..." 
-                                : searchSource === SearchSource.FileSearch ? "Ask a question about the manuals..." 
+                                : isReadOnly ? "This library no longer exists, so the conversation is read-only."
+                                : searchSource === SearchSource.FileSearch ? (availableFilters.length > 0 ? `Ask a question, e.g. ${availableFilters[0].key}:${availableFilters[0].value} ...` : "Ask a question about the manuals...") 
+                                : searchSource === SearchSource.Hybrid ? "Ask about your documents and the web..."
                                 : "Ask Google Search anything..."
                             }
                             className="flex-grow bg-gem-mist border border-gem-mist/50 rounded-full py-3 px-5 focus:outline-none focus:ring-2 focus:ring-gem-blue"
-                            disabled={isQueryLoading || !isChatActive}
+                            disabled={isQueryLoading || !isChatActive || isReadOnly}
                         />
-                        <button type="submit" disabled={isQueryLoading || !query.trim() || !isChatActive} className="p-3 bg-gem-blue hover:bg-blue-500 rounded-full text-white disabled:bg-gem-mist transition-colors" title="Send message">
-                            <SendIcon />
-                        </button>
+                        {isStreaming ? (
+                            <button type="button" onClick={onStopGenerating} className="p-3 bg-gem-blue hover:bg-blue-500 rounded-full text-white transition-colors" title="Stop generating and keep the answer so far">
+                                <StopIcon />
+                            </button>
+                        ) : (
+                            <button type="submit" disabled={isQueryLoading || !query.trim() || !isChatActive || isReadOnly} className="p-3 bg-gem-blue hover:bg-blue-500 rounded-full text-white disabled:bg-gem-mist transition-colors" title="Send message">
+                                <SendIcon />
+                            </button>
+                        )}
                     </form>
                 </div>
             </div>
 
-            {modalContent !== null && (
-                <div 
-                    className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" 
-                    onClick={closeModal} 
-                    role="dialog" 
-                    aria-modal="true"
-                    aria-labelledby="source-modal-title"
-                >
-                    <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
-                        <h3 id="source-modal-title" className="text-xl font-bold mb-4">Source Text</h3>
-                        <div 
-                            className="flex-grow overflow-y-auto pr-4 text-gem-offwhite/80 border-t border-b border-gem-mist py-4"
-                            dangerouslySetInnerHTML={renderMarkdown(modalContent || '')}
-                        >
-                        </div>
-                        <div className="flex justify-end mt-6">
-                            <button onClick={closeModal} className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Close source view">
-                                Close
-                            </button>
-                        </div>
-                    </div>
-                </div>
+            {sourceView && (
+                <SourceViewer
+                    chunk={sourceView.chunk}
+                    index={sourceView.index}
+                    file={findLocalFile(sourceView.chunk)}
+                    onClose={closeModal}
+                />
             )}
+            <PromptTemplateModal
+                isOpen={isPromptEditorOpen}
+                onClose={() => setIsPromptEditorOpen(false)}
+                templates={promptTemplates}
+                activeTemplateId={settings.promptTemplateId}
+                onSave={onPromptTemplatesChange}
+            />
         </div>
     );
 };
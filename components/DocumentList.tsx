@@ -8,6 +8,8 @@ import Spinner from './Spinner';
 import UploadIcon from './icons/UploadIcon';
 import TrashIcon from './icons/TrashIcon';
 import PlusIcon from './icons/PlusIcon';
+import { toCustomMetadata } from '../services/metadataFilter';
+import { ACCEPT_ATTRIBUTE } from '../services/fileConversion';
 
 interface DocumentListProps {
     selectedStore: RagStore | null;
@@ -18,6 +20,21 @@ interface DocumentListProps {
     onDelete: (docName: string) => void;
 }
 
+const formatMetadataValue = (meta: CustomMetadata): string => {
+    if (meta.stringListValue) return meta.stringListValue.join(', ');
+    if (meta.numericValue !== undefined) return String(meta.numericValue);
+    return meta.stringValue || '';
+};
+
+const formatDocumentState = (state?: string): string | null => {
+    switch (state) {
+        case 'STATE_ACTIVE': return 'Ready';
+        case 'STATE_PENDING': return 'Indexing';
+        case 'STATE_FAILED': return 'Failed';
+        default: return null;
+    }
+};
+
 const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, isLoading, processingFile, onUpload, onDelete }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
@@ -60,7 +77,7 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
         if (!selectedFile) return;
         const formattedMetadata: CustomMetadata[] = metadata
             .filter(m => m.key.trim() !== '')
-            .map(m => ({ key: m.key.trim(), stringValue: m.value.trim() }));
+            .map(m => toCustomMetadata(m.key.trim(), m.value));
         onUpload(selectedFile, formattedMetadata);
         handleModalClose();
     };
@@ -101,13 +118,15 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                                 type="file"
                                 ref={fileInputRef}
                                 onChange={handleFileChange}
+                                accept={ACCEPT_ATTRIBUTE}
                                 className="w-full text-sm text-gem-offwhite file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-gem-blue file:text-white hover:file:bg-blue-500"
                             />
                             {selectedFile && <p className="text-sm mt-2 text-gem-offwhite/70">Selected: {selectedFile.name}</p>}
                         </div>
 
                         <div className="mb-4">
-                            <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Custom Metadata (optional)</h4>
+                            <h4 className="text-sm font-medium text-gem-offwhite/80 mb-1">Custom Metadata (optional)</h4>
+                            <p className="text-xs text-gem-offwhite/60 mb-2">Numbers are stored as numeric values; separate multiple values with commas.</p>
                             <div className="space-y-2 max-h-48 overflow-y-auto pr-2">
                                 {metadata.map((item, index) => (
                                     <div key={index} className="flex items-center space-x-2">
@@ -156,6 +175,12 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                         <li key={doc.name} className="p-3 bg-gem-mist rounded-md group">
                              <div className="flex items-center justify-between">
                                 <span className="truncate font-medium" title={doc.displayName}>{doc.displayName}</span>
+                                {formatDocumentState(doc.state) && (
+                                    <span className={`ml-2 text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${doc.state === 'STATE_FAILED' ? 'bg-red-100 text-red-700' : 'bg-gem-slate text-gem-offwhite/70'}`}>
+                                        {formatDocumentState(doc.state)}
+                                    </span>
+                                )}
+                                <span className="flex-grow" />
                                 <button 
                                     onClick={() => onDelete(doc.name)}
                                     className="ml-2 p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
@@ -165,6 +190,15 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                                 <TrashIcon />
                                 </button>
                             </div>
+                            {(doc.mimeType || doc.sizeBytes !== undefined || doc.createTime) && (
+                                <p className="mt-1 text-xs text-gem-offwhite/60 truncate">
+                                    {[
+                                        doc.mimeType,
+                                        doc.sizeBytes !== undefined ? `${(doc.sizeBytes / 1024).toFixed(2)} KB` : null,
+                                        doc.createTime ? `added ${new Date(doc.createTime).toLocaleDateString()}` : null,
+                                    ].filter(Boolean).join(' · ')}
+                                </p>
+                            )}
                              {doc.customMetadata && doc.customMetadata.length > 0 && (
                                 <div className="mt-2 pt-2 border-t border-gem-mist/50 text-xs">
                                     <h4 className="font-semibold text-gem-offwhite/70 mb-1">Metadata:</h4>
@@ -173,7 +207,7 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                                             meta.key && (
                                                 <div key={index} className="flex">
                                                     <dt className="w-1/3 font-medium text-gem-offwhite/80 truncate pr-2" title={meta.key}>{meta.key}</dt>
-                                                    <dd className="w-2/3 text-gem-offwhite/60 truncate" title={meta.stringValue}>{meta.stringValue}</dd>
+                                                    <dd className="w-2/3 text-gem-offwhite/60 truncate" title={formatMetadataValue(meta)}>{formatMetadataValue(meta)}</dd>
                                                 </div>
                                             )
                                         ))}
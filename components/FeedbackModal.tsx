@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AnswerFeedback } from '../types';
+import { FeedbackFilter, filterFeedback } from '../services/feedbackStore';
+import { describeSearchSource } from '../services/conversation';
+import Spinner from './Spinner';
+import TrashIcon from './icons/TrashIcon';
+import ThumbUpIcon from './icons/ThumbUpIcon';
+import ThumbDownIcon from './icons/ThumbDownIcon';
+
+interface FeedbackModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    entries: AnswerFeedback[];
+    isLoading: boolean;
+    onDelete: (id: string) => void;
+    /** Downloads the given entries as JSONL. */
+    onExport: (entries: AnswerFeedback[]) => void;
+}
+
+const filterLabels: Record<FeedbackFilter, string> = {
+    all: 'All',
+    up: 'Helpful',
+    down: 'Not helpful',
+    wrongSource: 'Wrong source',
+};
+
+const FeedbackModal: React.FC<FeedbackModalProps> = ({ isOpen, onClose, entries, isLoading, onDelete, onExport }) => {
+    const [filter, setFilter] = useState<FeedbackFilter>('all');
+
+    if (!isOpen) return null;
+
+    const visible = filterFeedback(entries, filter);
+
+    const handleDelete = (entry: AnswerFeedback) => {
+        if (window.confirm(`Delete the feedback on "${entry.query}"?`)) {
+            onDelete(entry.id);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gem-slate p-6 sm:p-8 rounded-lg shadow-xl w-full max-w-3xl h-[80vh] flex flex-col text-gem-offwhite" onClick={e => e.stopPropagation()}>
+                <div className="mb-4">
+                    <h1 className="text-2xl sm:text-3xl font-bold mb-1">Answer Feedback</h1>
+                    <p className="text-gem-offwhite/70 text-sm">
+                        Ratings are kept in this browser with the question, answer, settings and sources. Export them as JSONL to build regression sets.
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Filter by rating">
+                    {(Object.keys(filterLabels) as FeedbackFilter[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setFilter(key)}
+                            className={`text-sm px-3 py-1 rounded-full transition-colors ${filter === key ? 'bg-gem-blue text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                            aria-pressed={filter === key}
+                        >
+                            {filterLabels[key]} ({filterFeedback(entries, key).length})
+                        </button>
+                    ))}
+                </div>
+                <div className="flex-grow min-h-0 overflow-y-auto space-y-2">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8"><Spinner /></div>
+                    ) : visible.length === 0 ? (
+                        <p className="text-center text-gem-offwhite/60 py-8">
+                            {entries.length === 0 ? 'No feedback yet. Rate an answer with the thumbs under it.' : 'No feedback matches this filter.'}
+                        </p>
+                    ) : visible.map(entry => (
+                        <div key={entry.id} className="bg-gem-onyx p-3 rounded-md">
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="flex items-start gap-2 min-w-0">
+                                    <span className={`mt-1 flex-shrink-0 ${entry.rating === 'up' ? 'text-gem-teal' : 'text-red-500'}`} title={filterLabels[entry.rating]}>
+                                        {entry.rating === 'up' ? <ThumbUpIcon /> : <ThumbDownIcon />}
+                                    </span>
+                                    <div className="min-w-0">
+                                        <p className="font-semibold break-words">{entry.query}</p>
+                                        <p className="text-sm text-gem-offwhite/70 line-clamp-3 whitespace-pre-line">{entry.answer}</p>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleDelete(entry)}
+                                    className="p-1 rounded-md text-gem-offwhite/60 hover:text-red-500 hover:bg-gem-mist transition-colors flex-shrink-0"
+                                    title="Delete this feedback"
+                                >
+                                    <TrashIcon />
+                                </button>
+                            </div>
+                            {(entry.comment || entry.wrongSource) && (
+                                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                                    {entry.wrongSource && (
+                                        <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-500">Wrong source</span>
+                                    )}
+                                    {entry.comment && <span className="italic text-gem-offwhite/80">"{entry.comment}"</span>}
+                                </div>
+                            )}
+                            <p className="mt-2 text-xs text-gem-offwhite/50">
+                                {[
+                                    new Date(entry.updatedAt).toLocaleString(),
+                                    describeSearchSource(entry.searchSource, entry.documentName),
+                                    entry.model,
+                                    entry.promptTemplateName,
+                                    `${entry.groundingChunks.length} source${entry.groundingChunks.length === 1 ? '' : 's'}`,
+                                ].filter(Boolean).join(' · ')}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end space-x-2 mt-6 pt-4 border-t border-gem-mist">
+                    <button
+                        onClick={() => onExport(visible)}
+                        disabled={visible.length === 0}
+                        className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white font-bold transition-colors disabled:bg-gem-mist disabled:text-gem-offwhite/50"
+                        title="Download the entries shown, one JSON object per line"
+                    >
+                        Export {visible.length} as JSONL
+                    </button>
+                    <button onClick={onClose} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FeedbackModal;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { RagStore } from '../types';
+import RagStoreList from './RagStoreList';
+
+interface LibraryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    stores: RagStore[];
+    activeStoreName: string | null;
+    /** Libraries the current chat searches. */
+    queryStoreNames: string[];
+    isLoading: boolean;
+    onCreate: (displayName: string) => void;
+    onOpen: (store: RagStore) => void;
+    onOpenSet: (stores: RagStore[]) => void;
+    onDelete: (storeName: string) => void;
+    onRefresh: () => void;
+}
+
+const LibraryModal: React.FC<LibraryModalProps> = ({
+    isOpen, onClose, stores, activeStoreName, queryStoreNames, isLoading, onCreate, onOpen, onOpenSet, onDelete, onRefresh
+}) => {
+    const [checkedNames, setCheckedNames] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) setCheckedNames(queryStoreNames);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const checkedStores = stores.filter(store => checkedNames.includes(store.name));
+    const isCurrentSet = checkedStores.length === queryStoreNames.length
+        && checkedStores.every(store => queryStoreNames.includes(store.name));
+
+    const handleToggleChecked = (store: RagStore) => {
+        setCheckedNames(prev => prev.includes(store.name) ? prev.filter(name => name !== store.name) : [...prev, store.name]);
+    };
+
+    const selectedStore = stores.find(store => store.name === activeStoreName) || null;
+
+    const handleDelete = (storeName: string) => {
+        const store = stores.find(s => s.name === storeName);
+        if (window.confirm(`Delete the library "${store?.displayName || storeName}" and all of its documents? This cannot be undone.`)) {
+            onDelete(storeName);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gem-slate p-6 sm:p-8 rounded-lg shadow-xl w-full max-w-xl h-[70vh] flex flex-col text-gem-offwhite" onClick={e => e.stopPropagation()}>
+                <div className="mb-4">
+                    <h1 className="text-2xl sm:text-3xl font-bold mb-1">Document Libraries</h1>
+                    <p className="text-gem-offwhite/70 text-sm">
+                        Libraries are kept between visits. Pick one to reopen it and continue chatting with its documents, or tick several to search them together.
+                    </p>
+                </div>
+                <div className="flex-grow min-h-0">
+                    <RagStoreList
+                        stores={stores}
+                        selectedStore={selectedStore}
+                        isLoading={isLoading}
+                        onCreate={onCreate}
+                        onSelect={onOpen}
+                        onDelete={handleDelete}
+                        onRefresh={onRefresh}
+                        checkedStoreNames={checkedNames}
+                        onToggleChecked={handleToggleChecked}
+                    />
+                </div>
+                <div className="flex justify-end space-x-2 mt-6 pt-4 border-t border-gem-mist">
+                    {checkedStores.length > 1 && !isCurrentSet && (
+                        <button
+                            onClick={() => onOpenSet(checkedStores)}
+                            className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white font-bold transition-colors"
+                            title="Answer questions from all of the ticked libraries"
+                        >
+                            Search {checkedStores.length} libraries
+                        </button>
+                    )}
+                    <button onClick={onClose} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LibraryModal;
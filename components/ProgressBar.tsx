@@ -3,15 +3,31 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { UploadFileState, UploadFileStatus } from '../types';
 
 interface ProgressBarProps {
   progress: number;
   total: number;
   message: string;
   fileName?: string;
+  /** Per-file status, listed under the bar when given. */
+  files?: UploadFileStatus[];
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fileName }) => {
+const stateLabels: Record<UploadFileState, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gem-offwhite/60' },
+  recognizing: { label: 'Running OCR', className: 'text-gem-blue' },
+  uploading: { label: 'Uploading', className: 'text-gem-blue' },
+  indexing: { label: 'Indexing', className: 'text-gem-blue' },
+  done: { label: 'Done', className: 'text-gem-teal' },
+  failed: { label: 'Failed', className: 'text-red-500' },
+  cancelled: { label: 'Cancelled', className: 'text-gem-offwhite/60' },
+};
+
+/** OCR pages below this confidence are likely to contain recognition errors. */
+const LOW_OCR_CONFIDENCE = 60;
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fileName, files }) => {
   const percentage = total > 0 ? (progress / total) * 100 : 0;
 
   return (
@@ -29,6 +45,39 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fil
             ></div>
         </div>
         <p className="mt-4 text-lg">{`${progress} / ${total}`}</p>
+        {files && files.length > 0 && (
+          <ul className="w-full max-w-xl mt-4 max-h-48 overflow-y-auto space-y-1 text-left">
+            {files.map((status, index) => {
+              const { label, className } = stateLabels[status.state];
+              return (
+                <li key={`${status.file.name}-${index}`} className="text-sm bg-gem-onyx p-2 rounded-md">
+                  <div className="flex justify-between items-center">
+                    <span className="truncate" title={status.file.name}>{status.file.name}</span>
+                    <span className={`text-xs font-semibold ml-2 flex-shrink-0 ${className}`}>
+                      {label}{status.attempts > 1 && status.state !== 'done' ? ` (attempt ${status.attempts})` : ''}
+                    </span>
+                  </div>
+                  {status.ocrPages && status.ocrPages.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1" aria-label="OCR confidence per page">
+                      {status.ocrPages.map(page => (
+                        <span
+                          key={page.pageNumber}
+                          className={`text-xs px-1.5 rounded ${page.confidence < LOW_OCR_CONFIDENCE ? 'bg-red-500/20 text-red-500' : 'bg-gem-mist text-gem-offwhite/70'}`}
+                          title={page.confidence < LOW_OCR_CONFIDENCE ? 'Low confidence: this page may be hard to search' : 'OCR confidence'}
+                        >
+                          p.{page.pageNumber} {page.confidence}%
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {status.error && status.state !== 'done' && (
+                    <p className="text-xs text-red-500 mt-1 truncate" title={status.error}>{status.error}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
     </div>
   );
 };
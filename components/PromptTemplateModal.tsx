@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { PromptTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, TEMPLATE_VARIABLES } from '../services/promptTemplates';
+import TrashIcon from './icons/TrashIcon';
+
+interface PromptTemplateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    templates: PromptTemplate[];
+    activeTemplateId: string;
+    onSave: (templates: PromptTemplate[]) => void;
+}
+
+const fieldClassName = "w-full bg-gem-mist border border-gem-mist/50 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const PromptTemplateModal: React.FC<PromptTemplateModalProps> = ({ isOpen, onClose, templates, activeTemplateId, onSave }) => {
+    const [drafts, setDrafts] = useState<PromptTemplate[]>(templates);
+    const [selectedId, setSelectedId] = useState(activeTemplateId);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDrafts(templates);
+            setSelectedId(activeTemplateId);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const selected = drafts.find(template => template.id === selectedId) || drafts[0];
+    const original = BUILT_IN_TEMPLATES.find(template => template.id === selected?.id);
+
+    const updateSelected = (changes: Partial<PromptTemplate>) => {
+        setDrafts(prev => prev.map(template => template.id === selected.id ? { ...template, ...changes } : template));
+    };
+
+    const handleAdd = (base?: PromptTemplate) => {
+        const template: PromptTemplate = {
+            id: `custom-${crypto.randomUUID()}`,
+            name: base ? `${base.name} (copy)` : 'New preset',
+            systemInstruction: base?.systemInstruction || 'You answer questions about the documents in the library "{documentName}".',
+            queryTemplate: base?.queryTemplate || '{query}',
+            questionsPrompt: base?.questionsPrompt || 'Generate 4 short and practical example questions a user might ask about these documents.',
+            isBuiltIn: false,
+        };
+        setDrafts(prev => [...prev, template]);
+        setSelectedId(template.id);
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the preset "${selected.name}"?`)) return;
+        setDrafts(prev => prev.filter(template => template.id !== selected.id));
+        setSelectedId(drafts[0].id);
+    };
+
+    const handleSave = () => {
+        onSave(drafts);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gem-slate p-6 sm:p-8 rounded-lg shadow-xl w-full max-w-3xl h-[80vh] flex flex-col text-gem-offwhite" onClick={e => e.stopPropagation()}>
+                <div className="mb-4">
+                    <h1 className="text-2xl sm:text-3xl font-bold mb-1">Prompt Presets</h1>
+                    <p className="text-gem-offwhite/70 text-sm">
+                        Presets shape how answers and suggested questions are written for your documents.
+                        Use {TEMPLATE_VARIABLES.map(name => `{${name}}`).join(' and ')} to insert the question and the library name.
+                    </p>
+                </div>
+                <div className="flex-grow min-h-0 flex gap-4">
+                    <div className="w-48 flex-shrink-0 flex flex-col">
+                        <ul className="flex-grow overflow-y-auto space-y-1">
+                            {drafts.map(template => (
+                                <li key={template.id}>
+                                    <button
+                                        onClick={() => setSelectedId(template.id)}
+                                        className={`w-full text-left px-3 py-2 rounded-md text-sm truncate transition-colors ${template.id === selected?.id ? 'bg-gem-blue text-white' : 'hover:bg-gem-mist'}`}
+                                        title={template.name}
+                                    >
+                                        {template.name}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        <button onClick={() => handleAdd()} className="mt-2 px-3 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors">
+                            + New preset
+                        </button>
+                    </div>
+                    {selected && (
+                        <div className="flex-grow min-w-0 overflow-y-auto space-y-3 pr-1">
+                            <label className="block">
+                                <span className="block text-xs text-gem-offwhite/70 mb-1">Name</span>
+                                <input value={selected.name} onChange={e => updateSelected({ name: e.target.value })} className={fieldClassName} />
+                            </label>
+                            <label className="block">
+                                <span className="block text-xs text-gem-offwhite/70 mb-1">System instruction</span>
+                                <textarea value={selected.systemInstruction} onChange={e => updateSelected({ systemInstruction: e.target.value })} rows={5} className={`${fieldClassName} resize-y`} />
+                            </label>
+                            <label className="block">
+                                <span className="block text-xs text-gem-offwhite/70 mb-1">Question template</span>
+                                <textarea value={selected.queryTemplate} onChange={e => updateSelected({ queryTemplate: e.target.value })} rows={2} className={`${fieldClassName} resize-y`} />
+                                {!selected.queryTemplate.includes('{query}') && (
+                                    <span className="block text-xs text-red-500 mt-1">Without {'{query}'} the user's question is not sent.</span>
+                                )}
+                            </label>
+                            <label className="block">
+                                <span className="block text-xs text-gem-offwhite/70 mb-1">Suggested questions</span>
+                                <textarea value={selected.questionsPrompt} onChange={e => updateSelected({ questionsPrompt: e.target.value })} rows={3} className={`${fieldClassName} resize-y`} />
+                            </label>
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => handleAdd(selected)} className="px-3 py-1.5 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors">
+                                    Duplicate
+                                </button>
+                                {original ? (
+                                    <button
+                                        onClick={() => updateSelected(original)}
+                                        className="px-3 py-1.5 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors"
+                                        title="Restore the built-in text of this preset"
+                                    >
+                                        Reset to built-in
+                                    </button>
+                                ) : (
+                                    <button onClick={handleDelete} className="flex items-center px-3 py-1.5 rounded-md text-red-500 hover:bg-red-500/10 text-sm transition-colors">
+                                        <TrashIcon /> <span className="ml-1">Delete</span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="flex justify-end gap-2 mt-6 pt-4 border-t border-gem-mist">
+                    <button onClick={onClose} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateModal;
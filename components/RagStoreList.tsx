@@ -17,9 +17,14 @@ interface RagStoreListProps {
     onSelect: (store: RagStore) => void;
     onDelete: (storeName: string) => void;
     onRefresh: () => void;
+    /** When given, each store gets a checkbox for picking several at once. */
+    checkedStoreNames?: string[];
+    onToggleChecked?: (store: RagStore) => void;
 }
 
-const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLoading, onCreate, onSelect, onDelete, onRefresh }) => {
+const RagStoreList: React.FC<RagStoreListProps> = ({
+    stores, selectedStore, isLoading, onCreate, onSelect, onDelete, onRefresh, checkedStoreNames, onToggleChecked
+}) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [newStoreName, setNewStoreName] = useState('');
 
@@ -117,6 +122,16 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                 <ul className="space-y-2 overflow-y-auto">
                     {stores.map((store) => (
                         <li key={store.name} className="flex items-center justify-between group">
+                            {onToggleChecked && (
+                                <input
+                                    type="checkbox"
+                                    checked={checkedStoreNames?.includes(store.name) ?? false}
+                                    onChange={() => onToggleChecked(store)}
+                                    className="mr-3 flex-shrink-0"
+                                    aria-label={`Search ${store.displayName} in the same chat`}
+                                    title="Search this library in the same chat"
+                                />
+                            )}
                             <button
                                 onClick={() => onSelect(store)}
                                 className={`w-full text-left p-3 rounded-md transition-colors text-lg ${
@@ -127,6 +142,11 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                                 title={`Select ${store.displayName} to view its documents`}
                             >
                                 {store.displayName}
+                                {store.documentCount !== undefined && (
+                                    <span className="block text-xs opacity-70">
+                                        {store.documentCount} {store.documentCount === 1 ? 'document' : 'documents'}
+                                    </span>
+                                )}
                             </button>
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onDelete(store.name); }}
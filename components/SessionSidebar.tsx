@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { ChatSession } from '../types';
+import { sessionMatches } from '../services/sessionStore';
+import { describeSearchSource } from '../services/conversation';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+import UploadIcon from './icons/UploadIcon';
+
+interface SessionSidebarProps {
+    sessions: ChatSession[];
+    activeSessionId: string | null;
+    isOpen: boolean;
+    onToggle: () => void;
+    onSelect: (session: ChatSession) => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    onNewChat: () => void;
+    onImport: (file: File) => void;
+}
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({
+    sessions, activeSessionId, isOpen, onToggle, onSelect, onRename, onDelete, onNewChat, onImport
+}) => {
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [search, setSearch] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+
+    const startRename = (session: ChatSession) => {
+        setEditingId(session.id);
+        setEditingTitle(session.title);
+    };
+
+    const commitRename = (e?: React.FormEvent) => {
+        e?.preventDefault();
+        if (editingId && editingTitle.trim()) {
+            onRename(editingId, editingTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleDelete = (session: ChatSession) => {
+        if (window.confirm(`Delete the conversation "${session.title}"?`)) {
+            onDelete(session.id);
+        }
+    };
+
+    const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) onImport(file);
+        event.target.value = '';
+    };
+
+    if (!isOpen) {
+        return (
+            <div className="hidden md:flex flex-col items-center w-12 flex-shrink-0 border-r border-gem-mist bg-gem-slate py-4">
+                <button onClick={onToggle} className="p-2 rounded-full hover:bg-gem-mist transition-colors" title="Show conversation history" aria-label="Show conversation history">
+                    <span aria-hidden="true">»</span>
+                </button>
+            </div>
+        );
+    }
+
+    const visibleSessions = sessions.filter(session => sessionMatches(session, search));
+
+    return (
+        <aside className="hidden md:flex flex-col w-72 flex-shrink-0 h-screen border-r border-gem-mist bg-gem-slate p-4">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-bold">History</h2>
+                <div className="flex items-center space-x-1">
+                    <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportChange} />
+                    <button onClick={() => importInputRef.current?.click()} className="p-2 rounded-full hover:bg-gem-mist transition-colors" title="Import a conversation exported as JSON" aria-label="Import conversation">
+                        <UploadIcon />
+                    </button>
+                    <button onClick={onNewChat} className="p-2 rounded-full hover:bg-gem-mist transition-colors" title="Start a new chat" aria-label="Start a new chat">
+                        <PlusIcon />
+                    </button>
+                    <button onClick={onToggle} className="p-2 rounded-full hover:bg-gem-mist transition-colors" title="Hide conversation history" aria-label="Hide conversation history">
+                        <span aria-hidden="true">«</span>
+                    </button>
+                </div>
+            </div>
+            <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search conversations..."
+                className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-2 px-3 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+            />
+            {visibleSessions.length === 0 ? (
+                <p className="text-sm text-gem-offwhite/60 text-center mt-8">
+                    {sessions.length === 0 ? 'Your conversations will appear here.' : 'No matching conversations.'}
+                </p>
+            ) : (
+                <ul className="space-y-1 overflow-y-auto flex-grow -mr-2 pr-2">
+                    {visibleSessions.map(session => (
+                        <li key={session.id} className="group">
+                            {editingId === session.id ? (
+                                <form onSubmit={commitRename}>
+                                    <input
+                                        value={editingTitle}
+                                        onChange={(e) => setEditingTitle(e.target.value)}
+                                        onBlur={() => commitRename()}
+                                        onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                                        className="w-full bg-gem-mist rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                        autoFocus
+                                        aria-label="Conversation title"
+                                    />
+                                </form>
+                            ) : (
+                                <div className={`flex items-center rounded-md ${session.id === activeSessionId ? 'bg-gem-mist' : 'hover:bg-gem-onyx'}`}>
+                                    <button
+                                        onClick={() => onSelect(session)}
+                                        onDoubleClick={() => startRename(session)}
+                                        className="flex-grow min-w-0 text-left py-2 px-3"
+                                        title="Open this conversation (double-click to rename)"
+                                    >
+                                        <span className="block truncate text-sm font-medium">{session.title}</span>
+                                        <span className="block truncate text-xs text-gem-offwhite/60">
+                                            {describeSearchSource(session.searchSource, session.documentName)}
+                                            {' · '}
+                                            {new Date(session.updatedAt).toLocaleDateString()}
+                                        </span>
+                                    </button>
+                                    <button
+                                        onClick={() => startRename(session)}
+                                        className="p-1 text-xs text-gem-offwhite/60 hover:text-gem-offwhite opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={`Rename ${session.title}`}
+                                        title="Rename"
+                                    >
+                                        ✎
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(session)}
+                                        className="p-1 mr-1 text-red-400 hover:text-red-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={`Delete ${session.title}`}
+                                        title="Delete"
+                                    >
+                                        <TrashIcon />
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </aside>
+    );
+};
+
+export default SessionSidebar;
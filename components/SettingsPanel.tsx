@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { PromptTemplate } from '../types';
+import { AppSettings, AVAILABLE_MODELS, DEFAULT_SETTINGS } from '../services/settings';
+
+interface SettingsPanelProps {
+    settings: AppSettings;
+    onSettingsChange: (settings: AppSettings) => void;
+    systemPrompt: string;
+    onSystemPromptChange: (prompt: string) => void;
+    promptTemplates: PromptTemplate[];
+    onEditPromptTemplates: () => void;
+}
+
+const inputClassName = "w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+/** An empty field means "use the model's default". */
+const parseOptionalNumber = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+    settings, onSettingsChange, systemPrompt, onSystemPromptChange, promptTemplates, onEditPromptTemplates
+}) => {
+    const { generation } = settings;
+    const updateGeneration = (changes: Partial<AppSettings['generation']>) =>
+        onSettingsChange({ ...settings, generation: { ...generation, ...changes } });
+    const knownModel = AVAILABLE_MODELS.some(model => model.id === generation.model);
+
+    return (
+        <div className="space-y-1">
+            <label className="settings-menu-item block">
+                <span className="block text-xs text-gem-offwhite/70 mb-1">Model</span>
+                <select
+                    value={generation.model}
+                    onChange={(e) => updateGeneration({ model: e.target.value })}
+                    className={inputClassName}
+                >
+                    {AVAILABLE_MODELS.map(model => (
+                        <option key={model.id} value={model.id}>{model.label}</option>
+                    ))}
+                    {!knownModel && <option value={generation.model}>{generation.model}</option>}
+                </select>
+            </label>
+            <div className="settings-menu-item">
+                <div className="flex justify-between text-xs text-gem-offwhite/70 mb-1">
+                    <span>Prompt preset</span>
+                    <button type="button" onClick={onEditPromptTemplates} className="text-gem-blue hover:underline">Edit presets</button>
+                </div>
+                <select
+                    aria-label="Prompt preset"
+                    value={settings.promptTemplateId}
+                    onChange={(e) => onSettingsChange({ ...settings, promptTemplateId: e.target.value })}
+                    className={inputClassName}
+                >
+                    {promptTemplates.map(template => (
+                        <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                </select>
+            </div>
+            <label className="settings-menu-item block">
+                <span className="flex justify-between text-xs text-gem-offwhite/70 mb-1">
+                    <span>Temperature</span>
+                    <span>{generation.temperature ?? 'default'}</span>
+                </span>
+                <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={generation.temperature ?? 1}
+                    onChange={(e) => updateGeneration({ temperature: Number(e.target.value) })}
+                    className="w-full"
+                />
+            </label>
+            <div className="grid grid-cols-2 gap-2 px-4 py-2">
+                <label className="block text-sm">
+                    <span className="block text-xs text-gem-offwhite/70 mb-1">Max tokens</span>
+                    <input
+                        type="number"
+                        min={1}
+                        placeholder="default"
+                        value={generation.maxOutputTokens ?? ''}
+                        onChange={(e) => updateGeneration({ maxOutputTokens: parseOptionalNumber(e.target.value) })}
+                        className={inputClassName}
+                    />
+                </label>
+                <label className="block text-sm">
+                    <span className="block text-xs text-gem-offwhite/70 mb-1" title="-1 lets the model decide, 0 turns thinking off (Flash models only)">Thinking budget</span>
+                    <input
+                        type="number"
+                        min={-1}
+                        placeholder="default"
+                        value={generation.thinkingBudget ?? ''}
+                        onChange={(e) => updateGeneration({ thinkingBudget: parseOptionalNumber(e.target.value) })}
+                        className={inputClassName}
+                    />
+                </label>
+            </div>
+            <label className="settings-menu-item flex items-center space-x-2">
+                <input
+                    type="checkbox"
+                    checked={settings.isConversationMode}
+                    onChange={(e) => onSettingsChange({ ...settings, isConversationMode: e.target.checked })}
+                />
+                <span title="Send earlier messages with each question so follow-ups work">Conversation mode</span>
+            </label>
+            {settings.isConversationMode && (
+                <label className="settings-menu-item block">
+                    <span className="block text-xs text-gem-offwhite/70 mb-1">History budget (tokens)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={250}
+                        value={settings.historyTokenBudget}
+                        onChange={(e) => onSettingsChange({ ...settings, historyTokenBudget: Math.max(0, Number(e.target.value) || 0) })}
+                        className={inputClassName}
+                    />
+                </label>
+            )}
+            <label className="settings-menu-item block">
+                <span className="block text-xs text-gem-offwhite/70 mb-1">System prompt (this chat only)</span>
+                <textarea
+                    value={systemPrompt}
+                    onChange={(e) => onSystemPromptChange(e.target.value)}
+                    placeholder="e.g. Answer in French and keep it brief."
+                    rows={3}
+                    className={`${inputClassName} resize-y`}
+                />
+            </label>
+            <div className="px-4 pt-1">
+                <button
+                    type="button"
+                    onClick={() => onSettingsChange(DEFAULT_SETTINGS)}
+                    className="text-xs text-gem-blue hover:underline"
+                >
+                    Reset to defaults
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
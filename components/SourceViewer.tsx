@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { GroundingChunk } from '../types';
+import { renderMarkdown } from '../services/markdown';
+
+interface SourceViewerProps {
+    chunk: GroundingChunk;
+    index: number;
+    file?: File;
+    onClose: () => void;
+}
+
+const CONTEXT_CHARS = 600;
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Finds the chunk inside the original text file and returns the text around it.
+ * Matching uses the start of the chunk with whitespace collapsed, since the
+ * indexer may normalise line breaks.
+ */
+function findSurroundingContext(fileText: string, chunkText: string): { before: string; after: string } | null {
+    const probe = chunkText.trim().split(/\s+/).slice(0, 12).join(' ');
+    if (!probe) return null;
+    const escaped = probe.split(' ').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+    const match = new RegExp(escaped).exec(fileText);
+    if (!match) return null;
+
+    const start = match.index;
+    const end = Math.min(fileText.length, start + chunkText.length);
+    return {
+        before: fileText.slice(Math.max(0, start - CONTEXT_CHARS), start),
+        after: fileText.slice(end, end + CONTEXT_CHARS),
+    };
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ chunk, index, file, onClose }) => {
+    const [fileUrl, setFileUrl] = useState<string | null>(null);
+    const [context, setContext] = useState<{ before: string; after: string } | null>(null);
+    const [showPdf, setShowPdf] = useState(false);
+
+    const retrieved = chunk.retrievedContext || {};
+    const text = retrieved.text || '';
+    const pageNumber = retrieved.pageNumber;
+    const documentTitle = retrieved.title || file?.name || 'Unknown document';
+
+    useEffect(() => {
+        if (!file) {
+            setFileUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        setFileUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    useEffect(() => {
+        setContext(null);
+        if (!file || isPdf(file) || !text) return;
+        let cancelled = false;
+        file.text()
+            .then(fileText => {
+                if (!cancelled) setContext(findSurroundingContext(fileText, text));
+            })
+            .catch(err => console.error("Failed to read source file for context", err));
+        return () => { cancelled = true; };
+    }, [file, text]);
+
+    const pdfUrl = fileUrl && file && isPdf(file) ? `${fileUrl}${pageNumber ? `#page=${pageNumber}` : ''}` : null;
+    const linkUri = retrieved.uri && /^https?:\/\//.test(retrieved.uri) ? retrieved.uri : null;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="source-modal-title"
+        >
+            <div className={`bg-gem-slate p-6 rounded-lg shadow-xl w-full ${showPdf ? 'max-w-5xl h-[90vh]' : 'max-w-2xl max-h-[80vh]'} flex flex-col`} onClick={e => e.stopPropagation()}>
+                <div className="mb-4">
+                    <h3 id="source-modal-title" className="text-xl font-bold">Source {index + 1}</h3>
+                    <p className="text-sm text-gem-offwhite/70 truncate" title={documentTitle}>
+                        {documentTitle}{pageNumber ? ` · page ${pageNumber}` : ''}
+                    </p>
+                    {linkUri ? (
+                        <a href={linkUri} target="_blank" rel="noopener noreferrer" className="text-xs text-gem-blue hover:underline break-all">{linkUri}</a>
+                    ) : retrieved.uri ? (
+                        <p className="text-xs text-gem-offwhite/50 break-all">{retrieved.uri}</p>
+                    ) : null}
+                </div>
+
+                {showPdf && pdfUrl ? (
+                    <iframe
+                        key={pdfUrl}
+                        src={pdfUrl}
+                        title={`${documentTitle}${pageNumber ? `, page ${pageNumber}` : ''}`}
+                        className="flex-grow w-full rounded-md border border-gem-mist"
+                    />
+                ) : (
+                    <div className="flex-grow overflow-y-auto pr-4 text-gem-offwhite/80 border-t border-b border-gem-mist py-4">
+                        {context?.before && (
+                            <p className="whitespace-pre-wrap text-sm text-gem-offwhite/50">…{context.before}</p>
+                        )}
+                        <div
+                            className={context ? 'my-2 pl-3 border-l-4 border-gem-blue bg-gem-onyx rounded-sm' : undefined}
+                            dangerouslySetInnerHTML={{ __html: renderMarkdown(text, { copyButtons: false }) }}
+                        />
+                        {context?.after && (
+                            <p className="whitespace-pre-wrap text-sm text-gem-offwhite/50">{context.after}…</p>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between mt-6">
+                    <div className="flex items-center space-x-2">
+                        {pdfUrl && (
+                            <button onClick={() => setShowPdf(!showPdf)} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title={showPdf ? "Show the retrieved text" : "View the cited page in the original PDF"}>
+                                {showPdf ? 'Show excerpt' : pageNumber ? `View page ${pageNumber}` : 'View PDF'}
+                            </button>
+                        )}
+                        {fileUrl && (
+                            <a href={pdfUrl || fileUrl} target="_blank" rel="noopener noreferrer" className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Open the original uploaded file in a new tab">
+                                Open original
+                            </a>
+                        )}
+                        {!file && (
+                            <span className="text-xs text-gem-offwhite/50">The original file is not available in this browser session.</span>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Close source view">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SourceViewer;
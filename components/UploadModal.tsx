@@ -2,48 +2,93 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { LibraryOptions, SampleCatalog, SampleDocument, UploadProgress } from '../types';
 import Spinner from './Spinner';
 import UploadCloudIcon from './icons/UploadCloudIcon';
 import CarIcon from './icons/CarIcon';
 import WashingMachineIcon from './icons/WashingMachineIcon';
 import TrashIcon from './icons/TrashIcon';
+import FileIcon from './icons/FileIcon';
+import CameraIcon from './icons/CameraIcon';
 import ProgressBar from './ProgressBar';
+import { convertFiles, convertedFileName, RejectedFile, ACCEPT_ATTRIBUTE, MAX_FILE_SIZE_BYTES } from '../services/fileConversion';
+import { isOcrImage, OCR_IMAGE_EXTENSIONS } from '../services/ocr';
+import { DEFAULT_MAX_CRAWL_PAGES, MAX_CRAWL_PAGES, fetchFile, importFromUrl } from '../services/urlImport';
+import { loadSampleCatalog, samplesInPack } from '../services/sampleCatalog';
 
 interface UploadModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onUpload: (files: File[]) => Promise<void>;
-    uploadProgress: { current: number; total: number; message?: string; fileName?: string; } | null;
+    onUpload: (files: File[], options: LibraryOptions) => Promise<void>;
+    uploadProgress: UploadProgress | null;
+    onCancelUpload: () => void;
+    onRetryFailed: () => void;
+    onStartWithUploaded: () => void;
+    onDiscardUpload: () => void;
+    corsProxyUrl: string;
+    onCorsProxyUrlChange: (proxyUrl: string) => void;
 }
 
-const sampleDocuments = [
-    {
-        name: 'Hyundai i10 Manual',
-        details: '562 pages, PDF',
-        url: 'https://www.hyundai.com/content/dam/hyundai/in/en/data/connect-to-service/owners-manual/2025/i20&i20nlineFromOct2023-Present.pdf',
-        icon: <CarIcon />,
-        fileName: 'hyundai-i10-manual.pdf'
-    },
-    {
-        name: 'LG Washer Manual',
-        details: '36 pages, PDF',
-        url: 'https://www.lg.com/us/support/products/documents/WM2077CW.pdf',
-        icon: <WashingMachineIcon />,
-        fileName: 'lg-washer-manual.pdf'
-    }
-];
+/** Icons a catalog entry can refer to by key. */
+const sampleIcons: Record<string, React.ReactNode> = {
+    car: <CarIcon />,
+    'washing-machine': <WashingMachineIcon />,
+};
 
 const UploadModal: React.FC<UploadModalProps> = ({ 
-    isOpen, onClose, onUpload, uploadProgress
+    isOpen, onClose, onUpload, uploadProgress, onCancelUpload, onRetryFailed, onStartWithUploaded, onDiscardUpload,
+    corsProxyUrl, onCorsProxyUrlChange
 }) => {
     const [files, setFiles] = useState<File[]>([]);
     const [isDragging, setIsDragging] = useState(false);
     const [loadingSample, setLoadingSample] = useState<string | null>(null);
+    const [libraryName, setLibraryName] = useState('');
+    const [deleteOnEnd, setDeleteOnEnd] = useState(false);
+    const [ocr, setOcr] = useState(false);
+    const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+    const [isConverting, setIsConverting] = useState(false);
+    const [importUrl, setImportUrl] = useState('');
+    const [maxPages, setMaxPages] = useState(DEFAULT_MAX_CRAWL_PAGES);
+    const [importStatus, setImportStatus] = useState<string | null>(null);
+    const [isProxyOpen, setIsProxyOpen] = useState(false);
+    const [sampleCatalog, setSampleCatalog] = useState<SampleCatalog | null>(null);
+    const [sampleCatalogError, setSampleCatalogError] = useState<string | null>(null);
+    // Catalog questions for the sample files in the selection, keyed by the file name after conversion.
+    const [sampleQuestions, setSampleQuestions] = useState<Record<string, string[]>>({});
+
+    useEffect(() => {
+        if (!isOpen || sampleCatalog) return;
+        loadSampleCatalog()
+            .then(catalog => {
+                setSampleCatalog(catalog);
+                setSampleCatalogError(null);
+            })
+            .catch(error => {
+                console.error("Failed to load the sample catalog", error);
+                setSampleCatalogError(error instanceof Error ? error.message : String(error));
+            });
+    }, [isOpen, sampleCatalog]);
+
+    // Files are validated and converted as they are added, so problems show up before the upload starts.
+    // `skipped` carries problems found earlier, such as pages a URL import could not fetch.
+    const addFiles = async (added: File[], skipped: RejectedFile[] = []) => {
+        setRejectedFiles(skipped);
+        if (added.length === 0) return;
+        setIsConverting(true);
+        try {
+            const { files: converted, rejected } = await convertFiles(added, { allowImages: ocr });
+            setFiles(prev => [...prev, ...converted]);
+            setRejectedFiles([...skipped, ...rejected]);
+        } finally {
+            setIsConverting(false);
+        }
+    };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         if (event.target.files) {
-            setFiles(prev => [...prev, ...Array.from(event.target.files!)]);
+            addFiles(Array.from(event.target.files));
+            event.target.value = '';
         }
     };
     
@@ -52,9 +97,9 @@ const UploadModal: React.FC<UploadModalProps> = ({
         event.stopPropagation();
         setIsDragging(false);
         if (event.dataTransfer.files) {
-            setFiles(prev => [...prev, ...Array.from(event.dataTransfer.files)]);
+            addFiles(Array.from(event.dataTransfer.files));
         }
-    }, []);
+    }, [ocr]);
 
     const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
@@ -68,32 +113,74 @@ const UploadModal: React.FC<UploadModalProps> = ({
         setIsDragging(false);
     }, []);
 
-    const handleSelectSample = async (name: string, url: string, fileName: string) => {
+    // `loadingKey` is the sample or pack id, so only the clicked button shows a spinner.
+    const handleAddSamples = async (samples: SampleDocument[], loadingKey: string) => {
         if (loadingSample) return;
-        setLoadingSample(name);
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch ${name}: ${response.statusText}. This may be a CORS issue.`);
-            }
-            const blob = await response.blob();
-            const file = new File([blob], fileName, { type: blob.type });
-            setFiles(prev => [...prev, file]);
-        } catch (error) {
-            console.error("Error fetching sample file:", error);
-            if (error instanceof Error && error.message.includes('Failed to fetch')) {
-                alert(`Could not fetch the sample document. Please try uploading a local file instead.`);
+        setLoadingSample(loadingKey);
+        const fetched: File[] = [];
+        const failed: RejectedFile[] = [];
+        for (const sample of samples) {
+            try {
+                fetched.push(await fetchFile(sample.url, { proxyUrl: corsProxyUrl }, sample.fileName));
+            } catch (error) {
+                console.error("Error fetching sample file:", error);
+                failed.push({ name: sample.name, reason: error instanceof Error ? error.message : String(error) });
             }
+        }
+        setSampleQuestions(prev => {
+            const next = { ...prev };
+            samples.forEach(sample => { next[convertedFileName(sample.fileName)] = sample.suggestedQuestions; });
+            return next;
+        });
+        try {
+            await addFiles(fetched, failed);
         } finally {
             setLoadingSample(null);
         }
     };
 
+    const handleImportUrl = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const url = importUrl.trim();
+        if (!url || importStatus) return;
+        setImportStatus("Fetching...");
+        try {
+            const result = await importFromUrl(url, { proxyUrl: corsProxyUrl, maxPages, onProgress: setImportStatus });
+            setImportStatus(null);
+            await addFiles(result.files, result.rejected);
+            setImportUrl('');
+        } catch (error) {
+            console.error("Error importing URL:", error);
+            setRejectedFiles([{ name: url, reason: error instanceof Error ? error.message : String(error) }]);
+        } finally {
+            setImportStatus(null);
+        }
+    };
+
+    // Photos can't be indexed without OCR, so turning it off takes them back out of the selection.
+    const handleOcrChange = (enabled: boolean) => {
+        setOcr(enabled);
+        if (enabled) return;
+        const images = files.filter(isOcrImage);
+        if (images.length === 0) return;
+        setFiles(prev => prev.filter(file => !isOcrImage(file)));
+        setRejectedFiles(images.map(file => ({ name: file.name, reason: 'Images can only be added with OCR turned on.' })));
+    };
+
     const handleConfirmUpload = async () => {
         if (files.length === 0) return;
         try {
-            await onUpload(files);
+            // Catalog questions only fit when every file is a sample that has some.
+            const suggestedQuestions = files.every(file => sampleQuestions[file.name]?.length)
+                ? files.flatMap(file => sampleQuestions[file.name])
+                : undefined;
+            await onUpload(files, { displayName: libraryName.trim(), deleteOnEnd, ocr, suggestedQuestions });
             setFiles([]); // Clear on successful start
+            setRejectedFiles([]);
+            setLibraryName('');
+            setDeleteOnEnd(false);
+            setOcr(false);
+            setSampleQuestions({});
         } catch (error) {
             console.error("Upload process failed:", error);
         }
@@ -106,21 +193,55 @@ const UploadModal: React.FC<UploadModalProps> = ({
     const handleClose = () => {
         if (uploadProgress) return; // Don't close during upload
         setFiles([]);
+        setRejectedFiles([]);
+        setLibraryName('');
+        setDeleteOnEnd(false);
+        setOcr(false);
+        setSampleQuestions({});
         onClose();
     };
 
     if (!isOpen) return null;
 
+    const uploadedCount = uploadProgress?.files.filter(status => status.state === 'done').length ?? 0;
+    const finishedCount = uploadProgress?.files.filter(status => ['done', 'failed', 'cancelled'].includes(status.state)).length ?? 0;
+
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={handleClose}>
             <div className="bg-gem-slate p-6 sm:p-8 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col text-gem-offwhite" onClick={e => e.stopPropagation()}>
                 {uploadProgress ? (
-                     <ProgressBar 
-                        progress={uploadProgress.current} 
-                        total={uploadProgress.total} 
-                        message={uploadProgress.message || "Preparing your chat..."} 
-                        fileName={uploadProgress.fileName}
-                    />
+                    <>
+                        <div className="flex-grow min-h-0 overflow-y-auto">
+                            <ProgressBar 
+                                progress={finishedCount} 
+                                total={uploadProgress.files.length} 
+                                message={uploadProgress.message || "Preparing your chat..."} 
+                                files={uploadProgress.files}
+                            />
+                        </div>
+                        {uploadProgress.phase === 'uploading' && (
+                            <div className="flex justify-end mt-6 pt-4 border-t border-gem-mist">
+                                <button onClick={onCancelUpload} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Stop the remaining uploads">
+                                    Cancel upload
+                                </button>
+                            </div>
+                        )}
+                        {uploadProgress.phase === 'review' && (
+                            <div className="flex flex-wrap justify-end gap-2 mt-6 pt-4 border-t border-gem-mist">
+                                <button onClick={onDiscardUpload} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Delete this library and its uploaded files">
+                                    Discard
+                                </button>
+                                <button onClick={onRetryFailed} className="px-6 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors">
+                                    Retry failed
+                                </button>
+                                {uploadedCount > 0 && (
+                                    <button onClick={onStartWithUploaded} className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white font-bold transition-colors">
+                                        Chat with {uploadedCount} {uploadedCount === 1 ? 'file' : 'files'}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </>
                 ) : (
                     <>
                         <div className="text-center mb-6">
@@ -137,14 +258,115 @@ const UploadModal: React.FC<UploadModalProps> = ({
                             >
                                 <div className="flex flex-col items-center justify-center">
                                     <UploadCloudIcon />
-                                    <p className="mt-4 text-lg text-gem-offwhite/80">Drag & drop your PDF, .txt, or .md file here.</p>
-                                    <input id="file-upload-modal" type="file" multiple className="hidden" onChange={handleFileChange} accept=".pdf,.txt,.md"/>
+                                    <p className="mt-4 text-lg text-gem-offwhite/80">Drag & drop your files here.</p>
+                                    <p className="mt-1 text-sm text-gem-offwhite/60">
+                                        PDF, TXT, Markdown, DOCX, HTML, CSV, XLSX, JSON or a ZIP of them, up to {MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB each.
+                                    </p>
+                                    <input id="file-upload-modal" type="file" multiple className="hidden" onChange={handleFileChange} accept={ocr ? [ACCEPT_ATTRIBUTE, ...OCR_IMAGE_EXTENSIONS].join(',') : ACCEPT_ATTRIBUTE}/>
                                      <label htmlFor="file-upload-modal" className="mt-4 cursor-pointer px-6 py-2 bg-gem-blue text-white rounded-full font-semibold hover:bg-blue-500 transition-colors">
                                         Or Browse Files
                                     </label>
                                 </div>
                             </div>
                             
+                            <div className="w-full max-w-xl mx-auto mb-4 flex flex-wrap items-center justify-between gap-2 text-left">
+                                <label className="flex items-center space-x-2 text-sm text-gem-offwhite/80">
+                                    <input type="checkbox" checked={ocr} onChange={(e) => handleOcrChange(e.target.checked)} />
+                                    <span title="Recognizes text on pages without a text layer before uploading. Runs in your browser and can take a while.">
+                                        Run OCR on scanned PDFs and photos of pages
+                                    </span>
+                                </label>
+                                {ocr && (
+                                    <>
+                                        <input id="camera-capture-modal" type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFileChange}/>
+                                        <label htmlFor="camera-capture-modal" className="cursor-pointer flex items-center space-x-2 text-sm text-gem-offwhite/80 hover:text-gem-offwhite" title="Take a photo of a page">
+                                            <CameraIcon />
+                                            <span>Take a photo</span>
+                                        </label>
+                                    </>
+                                )}
+                            </div>
+
+                            <form onSubmit={handleImportUrl} className="w-full max-w-xl mx-auto mb-4 text-left space-y-2">
+                                <label htmlFor="import-url" className="block font-semibold">Add from URL</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        id="import-url"
+                                        type="url"
+                                        value={importUrl}
+                                        onChange={(e) => setImportUrl(e.target.value)}
+                                        placeholder="https://example.com/manual.pdf, a web page, sitemap.xml or RSS feed"
+                                        className="flex-grow min-w-0 bg-gem-mist border border-gem-mist/50 rounded-md py-2 px-4 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={!importUrl.trim() || !!importStatus}
+                                        className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white font-semibold transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed"
+                                    >
+                                        Add
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gem-offwhite/70">
+                                    <label className="flex items-center space-x-2" title="Sitemaps and feeds are crawled up to this many pages">
+                                        <span>Max pages</span>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_CRAWL_PAGES}
+                                            value={maxPages}
+                                            onChange={(e) => setMaxPages(Math.min(MAX_CRAWL_PAGES, Math.max(1, Number(e.target.value) || 1)))}
+                                            className="w-20 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                        />
+                                    </label>
+                                    <button type="button" onClick={() => setIsProxyOpen(open => !open)} className="text-gem-blue hover:underline">
+                                        {corsProxyUrl ? 'CORS proxy: on' : 'CORS proxy'}
+                                    </button>
+                                </div>
+                                {isProxyOpen && (
+                                    <label className="block text-sm">
+                                        <span className="block text-xs text-gem-offwhite/70 mb-1">
+                                            Proxy URL for sites that block cross-origin requests. <code>{'{url}'}</code> is replaced with the page address, otherwise it is appended.
+                                        </span>
+                                        <input
+                                            type="text"
+                                            value={corsProxyUrl}
+                                            onChange={(e) => onCorsProxyUrlChange(e.target.value)}
+                                            placeholder="https://proxy.example.com/?url={url}"
+                                            className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                        />
+                                    </label>
+                                )}
+                            </form>
+
+                            {importStatus && (
+                                <div className="flex items-center justify-center mb-4 text-sm text-gem-offwhite/70">
+                                    <Spinner /> <span className="ml-2">{importStatus}</span>
+                                </div>
+                            )}
+
+                            {isConverting && (
+                                <div className="flex items-center justify-center mb-4 text-sm text-gem-offwhite/70">
+                                    <Spinner /> <span className="ml-2">Converting files...</span>
+                                </div>
+                            )}
+
+                            {rejectedFiles.length > 0 && (
+                                <div className="w-full max-w-xl mx-auto mb-4 text-left" role="alert">
+                                    <div className="flex justify-between items-center mb-2">
+                                        <h4 className="font-semibold text-red-500">Skipped ({rejectedFiles.length}):</h4>
+                                        <button onClick={() => setRejectedFiles([])} className="text-xs text-gem-offwhite/60 hover:underline">Dismiss</button>
+                                    </div>
+                                    <ul className="max-h-28 overflow-y-auto space-y-1 pr-2">
+                                        {rejectedFiles.map((rejected, index) => (
+                                            <li key={`${rejected.name}-${index}`} className="text-sm bg-red-500/10 p-2 rounded-md">
+                                                <span className="block truncate font-medium" title={rejected.name}>{rejected.name}</span>
+                                                <span className="block text-xs text-red-500">{rejected.reason}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
                             {files.length > 0 && (
                                 <div className="w-full max-w-xl mx-auto mb-4 text-left">
                                     <h4 className="font-semibold mb-2">Selected Files ({files.length}):</h4>
@@ -164,6 +386,24 @@ const UploadModal: React.FC<UploadModalProps> = ({
                                 </div>
                             )}
 
+                            {files.length > 0 && (
+                                <div className="w-full max-w-xl mx-auto mb-4 text-left space-y-2">
+                                    <label htmlFor="library-name" className="block font-semibold">Library name</label>
+                                    <input
+                                        id="library-name"
+                                        type="text"
+                                        value={libraryName}
+                                        onChange={(e) => setLibraryName(e.target.value)}
+                                        placeholder={files.length === 1 ? files[0].name : `${files.length} documents`}
+                                        className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-2 px-4 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                    />
+                                    <label className="flex items-center space-x-2 text-sm text-gem-offwhite/80">
+                                        <input type="checkbox" checked={deleteOnEnd} onChange={(e) => setDeleteOnEnd(e.target.checked)} />
+                                        <span>Delete this library when the chat ends or the tab is closed</span>
+                                    </label>
+                                </div>
+                            )}
+
                              <div className="flex items-center my-6">
                                 <div className="flex-grow border-t border-gem-mist"></div>
                                 <span className="flex-shrink mx-4 text-gem-offwhite/60">OR</span>
@@ -173,21 +413,50 @@ const UploadModal: React.FC<UploadModalProps> = ({
                              <div className="text-left mb-3">
                                 <p className="text-gem-offwhite/80">Try an example:</p>
                             </div>
+                            {sampleCatalogError && (
+                                <p className="text-sm text-red-500 mb-3 text-left">{sampleCatalogError}</p>
+                            )}
+                            {!sampleCatalog && !sampleCatalogError && (
+                                <div className="flex justify-center mb-3"><Spinner /></div>
+                            )}
+                            {sampleCatalog && sampleCatalog.packs.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mb-4">
+                                    {sampleCatalog.packs.map(pack => (
+                                        <button
+                                            key={pack.id}
+                                            onClick={() => handleAddSamples(samplesInPack(sampleCatalog, pack), pack.id)}
+                                            disabled={!!loadingSample}
+                                            className="flex items-center px-4 py-2 rounded-full border border-gem-mist/50 text-sm hover:border-gem-blue/50 hover:bg-gem-mist/10 transition-all disabled:opacity-50 disabled:cursor-wait"
+                                            title={pack.description}
+                                        >
+                                            {loadingSample === pack.id && <span className="mr-2"><Spinner /></span>}
+                                            Add pack: {pack.name} ({pack.sampleIds.length})
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                {sampleDocuments.map(doc => (
+                                {sampleCatalog?.samples.map(sample => (
                                     <button
-                                        key={doc.name}
-                                        onClick={() => handleSelectSample(doc.name, doc.url, doc.fileName)}
+                                        key={sample.id}
+                                        onClick={() => handleAddSamples([sample], sample.id)}
                                         disabled={!!loadingSample}
                                         className="bg-gem-onyx p-4 rounded-lg border border-gem-mist/30 hover:border-gem-blue/50 hover:bg-gem-mist/10 transition-all text-left flex items-center space-x-4 disabled:opacity-50 disabled:cursor-wait"
-                                        title={`Chat with the ${doc.name}`}
+                                        title={`Chat with the ${sample.name}`}
                                     >
                                         <div className="w-16 h-16 flex items-center justify-center flex-shrink-0 bg-gem-mist/20 rounded-lg">
-                                            {loadingSample === doc.name ? <Spinner /> : doc.icon}
+                                            {loadingSample === sample.id ? <Spinner /> : sampleIcons[sample.icon] || <FileIcon className="text-gem-blue" />}
                                         </div>
-                                        <div>
-                                            <p className="font-semibold text-gem-offwhite">{doc.name}</p>
-                                            <p className="text-sm text-gem-offwhite/60">{doc.details}</p>
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-gem-offwhite">{sample.name}</p>
+                                            <p className="text-sm text-gem-offwhite/60">{sample.details}</p>
+                                            {sample.tags.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                    {sample.tags.map(tag => (
+                                                        <span key={tag} className="text-xs px-1.5 rounded bg-gem-mist text-gem-offwhite/70">{tag}</span>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     </button>
                                 ))}
@@ -200,7 +469,7 @@ const UploadModal: React.FC<UploadModalProps> = ({
                             </button>
                              <button 
                                 onClick={handleConfirmUpload}
-                                disabled={files.length === 0}
+                                disabled={files.length === 0 || isConverting}
                                 className="px-6 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white font-bold transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed"
                                 title={files.length === 0 ? "Please select a file first" : "Start chat session"}
                             >
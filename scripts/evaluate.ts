@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadEnv } from 'vite';
+import { GenerationSettings } from '../types';
+import { initialize } from '../services/searchProvider';
+import { localProvider } from '../services/localRagService';
+import { convertFiles } from '../services/fileConversion';
+import { setClient, getRecording } from '../services/geminiService';
+import { createReplayClient, parseFixture } from '../services/geminiFixtures';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/settings';
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPT_TEMPLATE } from '../services/promptTemplates';
+import {
+    EvaluationReport, QuestionResult, REPORT_VERSION, METRICS,
+    parseGoldenSet, scoreAnswer, failedAnswer, summarize, formatScore, formatDelta, renderHtmlReport,
+} from '../services/evaluation';
+
+/**
+ * Runs a golden set through File Search and writes `<out>.json` and
+ * `<out>.html`. Documents are either uploaded to a temporary library from
+ * `--docs`, or searched in existing libraries given with `--store`.
+ */
+
+const USAGE = `Usage: npm run eval -- --golden <set.jsonl> (--docs <file or folder>... | --store <name>...) [options]
+
+  --golden <file>     JSONL golden set: {"id", "question", "expectedFacts", "expectedSources", "metadataFilter"?}
+  --docs <path>       Upload this file, or every PDF, text, Markdown and CSV file in this folder,
+                      to a temporary library. HTML, DOCX, XLSX and ZIP need the browser; convert
+                      them to Markdown or PDF first, or upload them in the app and use --store
+  --store <name>      Search an existing library instead, e.g. fileSearchStores/abc123
+                      --docs and --store can be repeated
+  --provider <id>     gemini (default) or mock; defaults to SEARCH_PROVIDER
+  --model <id>        Model that writes the answers (default ${DEFAULT_GENERATION_SETTINGS.model})
+  --template <id>     Prompt preset id (default ${DEFAULT_PROMPT_TEMPLATE.id})
+  --out <path>        Report path without extension (default eval-report)
+  --baseline <file>   JSON report of an earlier run to compare with
+  --keep-store        Keep the temporary library after the run
+  --record <file>     Save every Gemini API call of the run as a fixture
+  --replay <file>     Answer Gemini API calls from a recorded fixture, without a network
+`;
+
+// Converting these uses DOMParser or unpacks entries that may need it, and Node has no DOM.
+const BROWSER_ONLY_EXTENSIONS = ['.html', '.htm', '.docx', '.xlsx', '.zip'];
+// Taken from folders; anything else there, such as a catalog.json manifest, is left out.
+const FOLDER_EXTENSIONS = ['.pdf', '.txt', '.md', '.markdown', '.csv'];
+
+const extensionOf = (name: string) => path.extname(name).toLowerCase();
+
+async function collectFiles(paths: string[], inFolder = false): Promise<File[]> {
+    const files: File[] = [];
+    for (const entry of paths) {
+        if ((await stat(entry)).isDirectory()) {
+            const names = (await readdir(entry)).sort();
+            files.push(...await collectFiles(names.map(name => path.join(entry, name)), true));
+        } else if (BROWSER_ONLY_EXTENSIONS.includes(extensionOf(entry))) {
+            if (!inFolder) {
+                throw new Error(`${entry} can't be converted in Node. Convert it to Markdown or PDF, or upload it in the app and pass the library with --store.`);
+            }
+            console.warn(`Skipped ${entry}: HTML, DOCX, XLSX and ZIP files can only be converted in the browser.`);
+        } else if (!inFolder || FOLDER_EXTENSIONS.includes(extensionOf(entry))) {
+            files.push(new File([await readFile(entry)], path.basename(entry)));
+        }
+    }
+    return files;
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            golden: { type: 'string' },
+            docs: { type: 'string', multiple: true },
+            store: { type: 'string', multiple: true },
+            provider: { type: 'string' },
+            model: { type: 'string' },
+            template: { type: 'string' },
+            out: { type: 'string', default: 'eval-report' },
+            baseline: { type: 'string' },
+            'keep-store': { type: 'boolean', default: false },
+            record: { type: 'string' },
+            replay: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help || !values.golden || (!values.docs && !values.store)) {
+        console.log(USAGE);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+
+    // Read the API key and provider from .env.local like the Vite build does.
+    const env = loadEnv('development', process.cwd(), '');
+    process.env.API_KEY ??= env.GEMINI_API_KEY;
+    const providerId = values.provider || process.env.SEARCH_PROVIDER || env.SEARCH_PROVIDER || undefined;
+    if (providerId === localProvider.id) {
+        throw new Error("The local provider keeps its libraries in the browser's IndexedDB and can't run in Node. Use --provider gemini or mock.");
+    }
+
+    const questions = parseGoldenSet(await readFile(values.golden, 'utf8'));
+    const baseline: EvaluationReport | undefined = values.baseline
+        ? JSON.parse(await readFile(values.baseline, 'utf8'))
+        : undefined;
+    const template = values.template ? BUILT_IN_TEMPLATES.find(t => t.id === values.template) : DEFAULT_PROMPT_TEMPLATE;
+    if (!template) {
+        throw new Error(`Unknown prompt preset "${values.template}". Built-in presets: ${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')}.`);
+    }
+    const settings: GenerationSettings = {
+        ...DEFAULT_GENERATION_SETTINGS,
+        model: values.model || DEFAULT_GENERATION_SETTINGS.model,
+        promptTemplate: template,
+    };
+
+    if (values.record && values.replay) throw new Error("Use either --record or --replay.");
+    if (values.record || values.replay) {
+        process.env.GEMINI_FIXTURES = values.record ? 'record' : 'replay';
+    }
+    const provider = initialize(providerId);
+    if (values.replay) {
+        setClient(createReplayClient(parseFixture(JSON.parse(await readFile(values.replay, 'utf8')))));
+    }
+    let storeNames = values.store || [];
+    let temporaryStore: string | null = null;
+    try {
+        // Cleanup runs from here on, so a failed upload doesn't leave the temporary library behind.
+        if (values.docs) {
+            const { files, rejected } = await convertFiles(await collectFiles(values.docs));
+            rejected.forEach(file => console.warn(`Skipped ${file.name}: ${file.reason}`));
+            if (files.length === 0) throw new Error("None of the --docs files can be uploaded.");
+            // Named after the golden set rather than the time, so a replayed run makes the same request.
+            temporaryStore = await provider.createRagStore(`Evaluation: ${path.basename(values.golden)}`);
+            storeNames = [...storeNames, temporaryStore];
+            for (const file of files) {
+                console.log(`Uploading ${file.name}...`);
+                await provider.uploadToRagStore(temporaryStore, file);
+            }
+        }
+
+        const documentName = (await Promise.all(storeNames.map(name => provider.getRagStore(name))))
+            .map(store => store.displayName).join(', ');
+        const results: QuestionResult[] = [];
+        for (const [index, question] of questions.entries()) {
+            console.log(`[${index + 1}/${questions.length}] ${question.question}`);
+            const started = Date.now();
+            try {
+                const result = await provider.fileSearch(storeNames, question.question, question.metadataFilter, [], { ...settings, documentName });
+                results.push(scoreAnswer(question, result, Date.now() - started));
+            } catch (error) {
+                results.push(failedAnswer(question, error, Date.now() - started));
+                console.warn(`  Failed: ${results[results.length - 1].error}`);
+            }
+        }
+
+        const report: EvaluationReport = {
+            version: REPORT_VERSION,
+            createdAt: new Date().toISOString(),
+            goldenSet: path.basename(values.golden),
+            provider: provider.id,
+            model: settings.model,
+            promptTemplateId: template.id,
+            summary: summarize(results),
+            results,
+        };
+        await writeFile(`${values.out}.json`, JSON.stringify(report, null, 2) + '\n');
+        await writeFile(`${values.out}.html`, renderHtmlReport(report, baseline));
+
+        console.log('');
+        for (const { key, label } of METRICS) {
+            const delta = formatDelta(report.summary[key], baseline?.summary[key]);
+            console.log(`${label.padEnd(22)} ${formatScore(report.summary[key]).padStart(7)}${delta ? `  ${delta}` : ''}`);
+        }
+        console.log(`\n${report.summary.questions} questions, ${report.summary.errors} failed. Wrote ${values.out}.json and ${values.out}.html.`);
+    } finally {
+        if (temporaryStore && !values['keep-store']) {
+            await provider.deleteRagStore(temporaryStore).catch(error => console.warn(`Could not delete ${temporaryStore}:`, error));
+        } else if (temporaryStore) {
+            console.log(`Kept the library ${temporaryStore}.`);
+        }
+        const recording = getRecording();
+        if (values.record && recording) {
+            await writeFile(values.record, JSON.stringify(recording, null, 2) + '\n');
+            console.log(`Recorded ${recording.interactions.length} API calls to ${values.record}.`);
+        } else if (values.record) {
+            console.warn(`The ${provider.id} provider made no Gemini API calls; nothing was recorded.`);
+        }
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
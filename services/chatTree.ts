@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ChatTree } from '../types';
+
+/** Parent id of the first messages in a conversation. */
+export const ROOT_ID = '';
+
+/** Builds a tree with a single branch holding `messages`. */
+export function createChatTree(messages: ChatMessage[] = []): ChatTree {
+    let tree: ChatTree = { nodes: {}, childIds: {}, activeChildIds: {} };
+    let parentId = ROOT_ID;
+    for (const message of messages) {
+        const id = crypto.randomUUID();
+        tree = addMessage(tree, parentId, id, message);
+        parentId = id;
+    }
+    return tree;
+}
+
+/** Ids of the messages currently shown, from the first to the last. */
+export function activePathIds(tree: ChatTree): string[] {
+    const ids: string[] = [];
+    let id = tree.activeChildIds[ROOT_ID];
+    while (id && tree.nodes[id]) {
+        ids.push(id);
+        id = tree.activeChildIds[id];
+    }
+    return ids;
+}
+
+export function activePath(tree: ChatTree): ChatMessage[] {
+    return activePathIds(tree).map(id => tree.nodes[id].message);
+}
+
+/** Adds `message` as the newest child of `parentId` and shows it. */
+export function addMessage(tree: ChatTree, parentId: string, id: string, message: ChatMessage): ChatTree {
+    return {
+        nodes: { ...tree.nodes, [id]: { parentId, message } },
+        childIds: { ...tree.childIds, [parentId]: [...(tree.childIds[parentId] || []), id] },
+        activeChildIds: { ...tree.activeChildIds, [parentId]: id },
+    };
+}
+
+export function updateMessage(tree: ChatTree, id: string, update: (message: ChatMessage) => ChatMessage): ChatTree {
+    const node = tree.nodes[id];
+    if (!node) return tree;
+    return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, message: update(node.message) } } };
+}
+
+/** Stops showing any child of `parentId`, so a branch that is about to be added takes the old one's place at once. */
+export function clearActiveChild(tree: ChatTree, parentId: string): ChatTree {
+    const { [parentId]: _hidden, ...activeChildIds } = tree.activeChildIds;
+    return { ...tree, activeChildIds };
+}
+
+export function parentOf(tree: ChatTree, id: string): string {
+    return tree.nodes[id]?.parentId ?? ROOT_ID;
+}
+
+/** Where a message sits among its alternatives, e.g. `{ index: 1, count: 3 }` for "2/3". */
+export function branchPosition(tree: ChatTree, id: string): { index: number; count: number } {
+    const siblings = tree.childIds[parentOf(tree, id)] || [];
+    return { index: Math.max(0, siblings.indexOf(id)), count: siblings.length };
+}
+
+/** Shows the alternative `offset` steps away from `id`, keeping whatever was last shown below it. */
+export function switchBranch(tree: ChatTree, id: string, offset: number): ChatTree {
+    const parentId = parentOf(tree, id);
+    const siblings = tree.childIds[parentId] || [];
+    const target = siblings[siblings.indexOf(id) + offset];
+    if (!target) return tree;
+    return { ...tree, activeChildIds: { ...tree.activeChildIds, [parentId]: target } };
+}
+
+/** Applies `transform` to every message, e.g. to strip transient flags before saving. */
+export function mapMessages(tree: ChatTree, transform: (message: ChatMessage) => ChatMessage): ChatTree {
+    const nodes: ChatTree['nodes'] = {};
+    for (const [id, node] of Object.entries(tree.nodes)) {
+        nodes[id] = { ...node, message: transform(node.message) };
+    }
+    return { ...tree, nodes };
+}
+
+export function allMessages(tree: ChatTree): ChatMessage[] {
+    return Object.values(tree.nodes).map(node => node.message);
+}
+
+const isMessage = (value: unknown): value is ChatMessage => {
+    const message = value as ChatMessage;
+    return !!message && (message.role === 'user' || message.role === 'model') && Array.isArray(message.parts);
+};
+
+/**
+ * Checks that `value` is a well-formed tree: every node has a valid message
+ * and a known parent, and every child and active id points at a node.
+ */
+export function isChatTree(value: unknown): value is ChatTree {
+    const tree = value as ChatTree;
+    if (!tree || typeof tree.nodes !== 'object' || typeof tree.childIds !== 'object' || typeof tree.activeChildIds !== 'object') {
+        return false;
+    }
+    const known = (id: string) => id in tree.nodes;
+    return Object.values(tree.nodes).every(node => isMessage(node?.message) && (node.parentId === ROOT_ID || known(node.parentId)))
+        && Object.values(tree.childIds).every(ids => Array.isArray(ids) && ids.every(known))
+        && Object.values(tree.activeChildIds).every(known);
+}
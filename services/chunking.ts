@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ExtractedPage } from './textExtraction';
+
+export interface ChunkingOptions {
+    /** Target chunk length in characters. */
+    chunkSize: number;
+    /** Characters repeated at the start of the next chunk. */
+    chunkOverlap: number;
+}
+
+export interface TextChunk {
+    text: string;
+    pageNumber?: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = { chunkSize: 1000, chunkOverlap: 200 };
+
+// Prefer breaking at a paragraph, then a sentence, then a word.
+function findBreak(text: string, start: number, end: number): number {
+    const minimum = start + Math.floor((end - start) / 2);
+    for (const separator of ['\n\n', '. ', '\n', ' ']) {
+        const index = text.lastIndexOf(separator, end - separator.length);
+        if (index >= minimum) return index + separator.length;
+    }
+    return end;
+}
+
+/**
+ * Splits extracted pages into overlapping chunks. Chunks never span a page
+ * boundary, so every chunk keeps the page number it came from.
+ */
+export function chunkPages(pages: ExtractedPage[], options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS): TextChunk[] {
+    const chunkSize = Math.max(1, options.chunkSize);
+    const chunkOverlap = Math.min(Math.max(0, options.chunkOverlap), chunkSize - 1);
+    const chunks: TextChunk[] = [];
+
+    for (const page of pages) {
+        const text = page.text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+        let start = 0;
+        while (start < text.length) {
+            const end = start + chunkSize >= text.length ? text.length : findBreak(text, start, start + chunkSize);
+            const chunk = text.slice(start, end).trim();
+            if (chunk) chunks.push({ text: chunk, pageNumber: page.pageNumber });
+            if (end >= text.length) break;
+
+            // Step back by the overlap, then forward to a word start so chunks don't begin mid-word.
+            let next = Math.max(end - chunkOverlap, start + 1);
+            while (next < end && !/\s/.test(text[next - 1])) next++;
+            start = next;
+        }
+    }
+
+    return chunks;
+}
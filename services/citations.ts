@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingSupport } from '../types';
+
+// Private-use characters delimit markers so they survive markdown processing untouched.
+export const CITATION_MARKER_PATTERN = /\uE000(\d+(?:,\d+)*)\uE001/g;
+
+function utf8Length(codePoint: number): number {
+    if (codePoint < 0x80) return 1;
+    if (codePoint < 0x800) return 2;
+    if (codePoint < 0x10000) return 3;
+    return 4;
+}
+
+// Segment offsets from the API are UTF-8 byte offsets, not UTF-16 string indices.
+function byteOffsetToIndex(text: string, byteOffset: number): number {
+    let bytes = 0;
+    let index = 0;
+    while (index < text.length && bytes < byteOffset) {
+        const codePoint = text.codePointAt(index)!;
+        bytes += utf8Length(codePoint);
+        index += codePoint > 0xffff ? 2 : 1;
+    }
+    return index;
+}
+
+function resolveSegmentEnd(text: string, support: GroundingSupport): number | null {
+    const segment = support.segment;
+    if (!segment) return null;
+
+    const segmentText = segment.text;
+    if (segment.endIndex !== undefined) {
+        const end = byteOffsetToIndex(text, segment.endIndex);
+        if (!segmentText || text.slice(end - segmentText.length, end) === segmentText) {
+            return end;
+        }
+    }
+    // Offsets can drift (e.g. when the text was trimmed); fall back to locating the segment text.
+    if (segmentText) {
+        const start = text.indexOf(segmentText);
+        if (start !== -1) return start + segmentText.length;
+    }
+    return null;
+}
+
+/**
+ * Inserts citation markers after every supported segment of `text`. Each marker
+ * lists the grounding chunk indices backing that segment and is turned into
+ * superscript links by `renderCitationMarkers`.
+ */
+export function insertCitationMarkers(text: string, supports: GroundingSupport[] = []): string {
+    const markers = new Map<number, Set<number>>();
+
+    for (const support of supports) {
+        const indices = support.groundingChunkIndices || [];
+        if (indices.length === 0) continue;
+        const end = resolveSegmentEnd(text, support);
+        if (end === null) continue;
+        const existing = markers.get(end) || new Set<number>();
+        indices.forEach(index => existing.add(index));
+        markers.set(end, existing);
+    }
+
+    let result = text;
+    Array.from(markers.entries())
+        .sort(([a], [b]) => b - a)
+        .forEach(([end, indices]) => {
+            const list = Array.from(indices).sort((a, b) => a - b).join(',');
+            result = `${result.slice(0, end)}\uE000${list}\uE001${result.slice(end)}`;
+        });
+    return result;
+}
+
+export function renderCitationMarkers(html: string): string {
+    return html.replace(CITATION_MARKER_PATTERN, (_match, list: string) => {
+        const buttons = list.split(',').map(index => (
+            `<button type="button" class="citation-marker" data-chunk-index="${index}" title="Show source ${Number(index) + 1}">${Number(index) + 1}</button>`
+        )).join('');
+        return `<sup class="citation-group">${buttons}</sup>`;
+    });
+}
+
+/**
+ * Converts `[1]` / `[1, 3]` style citations written by the model into
+ * grounding supports over the cleaned text, for answers generated from
+ * excerpts rather than through a grounding tool. Numbers are 1-based and
+ * numbers without a matching source are dropped. A trailing, still-open
+ * bracket (mid-stream) is removed too.
+ */
+export function extractNumberedCitations(text: string, sourceCount: number): { text: string; groundingSupports: GroundingSupport[] } {
+    const encoder = new TextEncoder();
+    const groundingSupports: GroundingSupport[] = [];
+    let cleaned = '';
+    let last = 0;
+
+    // Models often write "text [1]." — move the punctuation in front of the citations.
+    const source = text.replace(/((?:[ \t]?\[\d+(?:\s*,\s*\d+)*\])+)([.,;:!?])/g, '$2$1');
+
+    for (const match of source.matchAll(/[ \t]?\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+        cleaned += source.slice(last, match.index);
+        last = match.index! + match[0].length;
+        const indices = match[1].split(',')
+            .map(n => Number(n.trim()) - 1)
+            .filter(index => index >= 0 && index < sourceCount);
+        if (indices.length > 0) {
+            groundingSupports.push({
+                segment: { endIndex: encoder.encode(cleaned).length },
+                groundingChunkIndices: indices,
+            });
+        }
+    }
+    cleaned += source.slice(last).replace(/[ \t]?\[[\d,\s]*$/, '');
+
+    return { text: cleaned, groundingSupports };
+}
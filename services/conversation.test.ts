@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { trimHistory } from './conversation';
+
+const user = (text: string): ChatMessage => ({ role: 'user', parts: [{ text }] });
+const model = (text: string, isError?: boolean): ChatMessage => ({ role: 'model', parts: [{ text }], isError });
+
+describe('trimHistory', () => {
+    it('keeps the latest turns that fit the budget, starting with a question', () => {
+        const history = [user('a'.repeat(40)), model('b'.repeat(40)), user('c'.repeat(8)), model('d'.repeat(8))];
+        expect(trimHistory(history, 15)).toEqual(history.slice(2));
+        expect(trimHistory(history, 1000)).toEqual(history);
+    });
+
+    it('drops an answer whose question no longer fits', () => {
+        const history = [user('q'.repeat(40)), model('a'.repeat(8))];
+        expect(trimHistory(history, 5)).toEqual([]);
+    });
+
+    it('leaves out failed turns', () => {
+        const history = [
+            user('first'),
+            model('first answer'),
+            user('broken'),
+            model('Sorry, I encountered an error. Please try again.', true),
+            user('second'),
+            model('second answer'),
+        ];
+        expect(trimHistory(history, 1000)).toEqual([history[0], history[1], history[4], history[5]]);
+    });
+});
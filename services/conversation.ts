@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Content } from "@google/genai";
+import { ChatMessage, SearchSource } from '../types';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+/** What a conversation searches, as shown in the history sidebar and exports. */
+export function describeSearchSource(searchSource: SearchSource, documentName: string): string {
+    switch (searchSource) {
+        case SearchSource.GoogleSearch:
+            return 'Google Search';
+        case SearchSource.Hybrid:
+            return documentName ? `${documentName} + Google Search` : 'Google Search';
+        default:
+            return documentName;
+    }
+}
+
+// Rough heuristic (~4 characters per token) that is good enough for budgeting
+// and avoids a countTokens round trip before every message.
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function messageText(message: ChatMessage): string {
+    return message.parts.map(part => part.text).join('\n');
+}
+
+/**
+ * Keeps the most recent turns that fit in `tokenBudget`. The result always
+ * starts with a user turn so the model sees well-formed conversation pairs.
+ * Failed turns, the error notice and the question it answered, are left out.
+ */
+export function trimHistory(history: ChatMessage[], tokenBudget: number): ChatMessage[] {
+    const turns = history.filter((message, i) => !message.isError && !history[i + 1]?.isError);
+    const kept: ChatMessage[] = [];
+    let used = 0;
+
+    for (let i = turns.length - 1; i >= 0; i--) {
+        const cost = estimateTokens(messageText(turns[i]));
+        if (used + cost > tokenBudget) break;
+        used += cost;
+        kept.unshift(turns[i]);
+    }
+
+    while (kept.length > 0 && kept[0].role !== 'user') {
+        kept.shift();
+    }
+    return kept;
+}
+
+export function toContents(history: ChatMessage[], query: string): Content[] {
+    return [
+        ...history.map(message => ({
+            role: message.role,
+            parts: [{ text: messageText(message) }],
+        })),
+        { role: 'user', parts: [{ text: query }] },
+    ];
+}
+
+export function formatTranscript(history: ChatMessage[]): string {
+    return history
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${messageText(message)}`)
+        .join('\n');
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { bm25Scores, cosineSimilarity, createHashingEmbedder, HASHING_EMBEDDER_DIMENSIONS, termFrequencies, tokenize } from './embeddings';
+
+const lexical = (text: string) => ({ terms: termFrequencies(text), length: tokenize(text).length });
+
+describe('bm25Scores', () => {
+    it('scores only the documents that contain query terms', () => {
+        const documents = [
+            'Descale the machine every 40 brew cycles.',
+            'Empty the dust bin after every cleaning run.',
+            'Rinse the carafe with warm water.',
+        ].map(lexical);
+        const scores = bm25Scores('how often to descale my machine', documents);
+        expect(scores[0]).toBeGreaterThan(scores[1]);
+        expect(scores[2]).toBe(0);
+    });
+
+    it('scores nothing without query terms', () => {
+        expect(bm25Scores('a ?', [lexical('anything')])).toEqual([0]);
+    });
+});
+
+describe('createHashingEmbedder', () => {
+    const embedder = createHashingEmbedder();
+
+    it('returns one normalized vector per text', async () => {
+        const vectors = await embedder.embed(['Descale the machine', '']);
+        expect(vectors).toHaveLength(2);
+        expect(vectors[0]).toHaveLength(HASHING_EMBEDDER_DIMENSIONS);
+        expect(Math.hypot(...vectors[0])).toBeCloseTo(1);
+        expect(vectors[1].every(value => value === 0)).toBe(true);
+    });
+
+    it('is deterministic and keyed by its dimensions', async () => {
+        expect(await embedder.embed(['brew cycles'])).toEqual(await createHashingEmbedder().embed(['brew cycles']));
+        expect(embedder.id).toBe(`hashing-${HASHING_EMBEDDER_DIMENSIONS}`);
+        expect(createHashingEmbedder(64).id).not.toBe(embedder.id);
+    });
+
+    it('places related word forms closer than unrelated text', async () => {
+        const [query, related, unrelated] = await embedder.embed([
+            'descaling the coffee maker',
+            'Descale the coffee machine every 40 cycles.',
+            'Replace the side brush every three months.',
+        ]);
+        expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.2);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Turns text into dense vectors for local retrieval. Local mode uses the
+ * built-in `createHashingEmbedder` by default, which needs no model; a
+ * model-based implementation (e.g. a small sentence-embedding model running in
+ * the browser) can be plugged in with `setEmbedder`. Without one, local
+ * libraries fall back to BM25 keyword ranking.
+ */
+export interface Embedder {
+    /** Stable identifier stored with each library, so vectors from different models are never compared. */
+    readonly id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Recorded on libraries indexed without an embedder. */
+export const LEXICAL_RETRIEVER_ID = 'bm25';
+
+let embedder: Embedder | null = null;
+
+export function setEmbedder(next: Embedder | null) {
+    embedder = next;
+}
+
+export function getEmbedder(): Embedder | null {
+    return embedder;
+}
+
+export function tokenize(text: string): string[] {
+    return Array.from(text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => match[0]).filter(word => word.length > 1);
+}
+
+export function termFrequencies(text: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const term of tokenize(text)) {
+        counts[term] = (counts[term] || 0) + 1;
+    }
+    return counts;
+}
+
+export interface LexicalDocument {
+    terms: Record<string, number>;
+    length: number;
+}
+
+/** Okapi BM25 scores of `query` against every document, in input order. */
+export function bm25Scores(query: string, documents: LexicalDocument[], k1 = 1.2, b = 0.75): number[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (documents.length === 0 || queryTerms.length === 0) return documents.map(() => 0);
+
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+    const idf = new Map(queryTerms.map(term => {
+        const frequency = documents.filter(doc => doc.terms[term]).length;
+        return [term, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5))];
+    }));
+
+    return documents.map(doc => queryTerms.reduce((score, term) => {
+        const tf = doc.terms[term] || 0;
+        if (tf === 0) return score;
+        return score + idf.get(term)! * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / averageLength));
+    }, 0));
+}
+
+export const HASHING_EMBEDDER_DIMENSIONS = 512;
+
+// 32-bit FNV-1a.
+function hash(feature: string): number {
+    let value = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        value ^= feature.charCodeAt(i);
+        value = Math.imul(value, 0x01000193);
+    }
+    return value >>> 0;
+}
+
+function hashingVector(text: string, dimensions: number): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+    for (const word of tokenize(text)) {
+        add(`w:${word}`, 1);
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.5);
+    }
+
+    const vector: number[] = new Array(dimensions).fill(0);
+    counts.forEach((count, feature) => {
+        const bucket = hash(feature);
+        // A second bit picks the sign so collisions cancel out instead of adding up.
+        vector[bucket % dimensions] += (bucket & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    });
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * A model-free embedder that hashes words and character trigrams into a
+ * fixed-size vector with sublinear term weights. Trigrams let related word
+ * forms such as "descale" and "descaling" match, which BM25 misses; it does
+ * not know synonyms the way a trained model does.
+ */
+export function createHashingEmbedder(dimensions = HASHING_EMBEDDER_DIMENSIONS): Embedder {
+    return {
+        id: `hashing-${dimensions}`,
+        embed: async texts => texts.map(text => hashingVector(text, dimensions)),
+    };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { QueryResult } from '../types';
+import { GoldenQuestion, QuestionResult, failedAnswer, formatDelta, parseGoldenSet, scoreAnswer, summarize } from './evaluation';
+
+const DESCALE: GoldenQuestion = {
+    id: 'descale',
+    question: 'How often should I descale it?',
+    expectedFacts: ['every 40 brew cycles', 'descaling solution'],
+    expectedSources: ['Descale the machine every 40 brew cycles'],
+};
+
+const chunk = (title: string, text: string) => ({ retrievedContext: { title, text } });
+
+describe('parseGoldenSet', () => {
+    it('reads questions and skips blank and comment lines', () => {
+        const questions = parseGoldenSet([
+            '// coffee maker',
+            '{"id": "descale", "question": "How often?", "expectedFacts": ["every 40 brew cycles"], "metadataFilter": "product=\\"coffee\\""}',
+            '',
+            '{"question": "What does E2 mean?"}',
+        ].join('\n'));
+        expect(questions).toEqual([
+            { id: 'descale', question: 'How often?', expectedFacts: ['every 40 brew cycles'], expectedSources: [], metadataFilter: 'product="coffee"' },
+            { id: 'q2', question: 'What does E2 mean?', expectedFacts: [], expectedSources: [], metadataFilter: undefined },
+        ]);
+    });
+
+    it('names the line of an invalid entry', () => {
+        expect(() => parseGoldenSet('{"question": "a"}\n{oops')).toThrow('Line 2 is not valid JSON.');
+        expect(() => parseGoldenSet('{"question": " "}')).toThrow('Line 1 has no "question".');
+        expect(() => parseGoldenSet('{"question": "a", "expectedFacts": "b"}')).toThrow('must be lists of strings');
+        expect(() => parseGoldenSet('{"id": "x", "question": "a"}\n{"id": "x", "question": "b"}')).toThrow('Line 2 repeats the id "x".');
+    });
+
+    it('rejects a set without questions', () => {
+        expect(() => parseGoldenSet('// nothing yet\n')).toThrow('The golden set has no questions.');
+    });
+});
+
+describe('scoreAnswer', () => {
+    it('scores facts, retrieval and citations', () => {
+        const result: QueryResult = {
+            text: 'Descale it every 40 brew cycles.',
+            groundingChunks: [
+                chunk('brewline.md', 'Descale the machine every 40 brew cycles with the descaling solution.'),
+                chunk('nimbus.md', 'Empty the dust bin after every run.'),
+            ],
+            groundingSupports: [
+                { segment: { startIndex: 0, endIndex: 32, text: 'Descale it every 40 brew cycles.' }, groundingChunkIndices: [0, 1] },
+            ],
+        };
+        expect(scoreAnswer(DESCALE, result, 120)).toEqual({
+            id: 'descale',
+            question: DESCALE.question,
+            answer: result.text,
+            sources: ['brewline.md', 'nimbus.md'],
+            factsFound: ['every 40 brew cycles'],
+            factsMissing: ['descaling solution'],
+            sourcesFound: DESCALE.expectedSources,
+            sourcesMissing: [],
+            hit: true,
+            factCoverage: 0.5,
+            citationCorrectness: 0.5,
+            latencyMs: 120,
+        });
+    });
+
+    it('matches words regardless of case, punctuation and order', () => {
+        const result = { text: 'Use Descaling-Solution every 40 BREW cycles!', groundingChunks: [] };
+        expect(scoreAnswer(DESCALE, result, 0).factCoverage).toBe(1);
+    });
+
+    it('gives no citation credit to an answer that cites nothing', () => {
+        const result = { text: '', groundingChunks: [chunk('brewline.md', DESCALE.expectedSources[0])] };
+        expect(scoreAnswer(DESCALE, result, 0)).toMatchObject({ hit: true, citationCorrectness: 0 });
+    });
+
+    it('leaves metrics without expectations unscored', () => {
+        const question = { ...DESCALE, expectedFacts: [], expectedSources: [] };
+        expect(scoreAnswer(question, { text: 'x', groundingChunks: [] }, 0))
+            .toMatchObject({ hit: null, factCoverage: null, citationCorrectness: null });
+    });
+});
+
+describe('summarize', () => {
+    it('averages the scored questions and counts failures', () => {
+        const cited = { text: 'Descale every 40 brew cycles with the descaling solution.', groundingChunks: [chunk('brewline.md', DESCALE.expectedSources[0])], groundingSupports: [{ groundingChunkIndices: [0] }] };
+        const results: QuestionResult[] = [
+            scoreAnswer(DESCALE, cited, 10),
+            failedAnswer(DESCALE, new Error('quota'), 10),
+            scoreAnswer({ ...DESCALE, expectedFacts: [], expectedSources: [] }, cited, 10),
+        ];
+        expect(results[1].error).toBe('quota');
+        expect(summarize(results)).toEqual({ questions: 3, errors: 1, hitRate: 0.5, factCoverage: 0.5, citationCorrectness: 0.5 });
+    });
+
+    it('leaves metrics nothing was scored on empty', () => {
+        expect(summarize([])).toEqual({ questions: 0, errors: 0, hitRate: null, factCoverage: null, citationCorrectness: null });
+    });
+});
+
+describe('formatDelta', () => {
+    it('formats the change in percentage points', () => {
+        expect(formatDelta(0.75, 0.71)).toBe('+4.0 pts');
+        expect(formatDelta(0.5, 0.625)).toBe('-12.5 pts');
+        expect(formatDelta(0.5, 0.5)).toBe('+0.0 pts');
+    });
+
+    it('is empty when either side was not scored', () => {
+        expect(formatDelta(0.5, undefined)).toBe('');
+        expect(formatDelta(0.5, null)).toBe('');
+        expect(formatDelta(null, 0.5)).toBe('');
+    });
+});
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingChunk, QueryResult } from '../types';
+import { escapeHtml } from './markdown';
+
+/**
+ * Scores File Search answers against a golden set. Each line of a golden set
+ * is a question with the facts a good answer states and the passages it should
+ * be retrieved from. Matching is by words rather than exact text, so answers
+ * and chunks may phrase or format a fact differently and still count.
+ */
+
+export const REPORT_VERSION = 1;
+/** Share of a fact's words the answer must contain for the fact to count as covered. */
+export const FACT_MATCH_THRESHOLD = 0.8;
+/** Share of a snippet's words a retrieved chunk must contain to count as that source. */
+export const SOURCE_MATCH_THRESHOLD = 0.8;
+
+export interface GoldenQuestion {
+    id: string;
+    question: string;
+    /** Facts a good answer states, e.g. "every 40 brew cycles". */
+    expectedFacts: string[];
+    /** Passages the answer should be retrieved from and cite. */
+    expectedSources: string[];
+    /** Passed to File Search unchanged, e.g. `product="washer"`. */
+    metadataFilter?: string;
+}
+
+export interface QuestionResult {
+    id: string;
+    question: string;
+    answer: string;
+    /** Retrieved chunks, as "title, page N". */
+    sources: string[];
+    factsFound: string[];
+    factsMissing: string[];
+    sourcesFound: string[];
+    sourcesMissing: string[];
+    /** Whether any expected source was retrieved; `null` when none are expected. */
+    hit: boolean | null;
+    /** Share of expected facts in the answer; `null` when none are expected. */
+    factCoverage: number | null;
+    /** Share of cited chunks that match an expected source; `null` when none are expected. */
+    citationCorrectness: number | null;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface EvaluationSummary {
+    questions: number;
+    errors: number;
+    hitRate: number | null;
+    factCoverage: number | null;
+    citationCorrectness: number | null;
+}
+
+export interface EvaluationReport {
+    version: number;
+    createdAt: string;
+    goldenSet: string;
+    provider: string;
+    model: string;
+    promptTemplateId: string;
+    summary: EvaluationSummary;
+    results: QuestionResult[];
+}
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/** Reads a JSONL golden set. Blank lines and lines starting with `//` are skipped. */
+export function parseGoldenSet(jsonl: string): GoldenQuestion[] {
+    const questions: GoldenQuestion[] = [];
+    const ids = new Set<string>();
+    jsonl.split('\n').forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('//')) return;
+        const where = `Line ${index + 1}`;
+        let entry: Record<string, unknown>;
+        try {
+            entry = JSON.parse(trimmed);
+        } catch {
+            throw new Error(`${where} is not valid JSON.`);
+        }
+        if (typeof entry.question !== 'string' || !entry.question.trim()) {
+            throw new Error(`${where} has no "question".`);
+        }
+        const expectedFacts = entry.expectedFacts ?? [];
+        const expectedSources = entry.expectedSources ?? [];
+        if (!isStringList(expectedFacts) || !isStringList(expectedSources)) {
+            throw new Error(`${where}: "expectedFacts" and "expectedSources" must be lists of strings.`);
+        }
+        const id = typeof entry.id === 'string' && entry.id ? entry.id : `q${questions.length + 1}`;
+        if (ids.has(id)) throw new Error(`${where} repeats the id "${id}".`);
+        ids.add(id);
+        questions.push({
+            id,
+            question: entry.question,
+            expectedFacts,
+            expectedSources,
+            metadataFilter: typeof entry.metadataFilter === 'string' ? entry.metadataFilter : undefined,
+        });
+    });
+    if (questions.length === 0) throw new Error("The golden set has no questions.");
+    return questions;
+}
+
+function words(text: string): string[] {
+    return text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}]+/gu, ' ').trim().split(' ').filter(Boolean);
+}
+
+/** Whether `haystack` contains most of the words of `needle`. */
+export function containsText(haystack: string, needle: string, threshold: number): boolean {
+    const needleWords = words(needle);
+    if (needleWords.length === 0) return false;
+    const available = new Set(words(haystack));
+    return needleWords.filter(word => available.has(word)).length / needleWords.length >= threshold;
+}
+
+function describeChunk(chunk: GroundingChunk): string {
+    if (chunk.web?.uri) return chunk.web.title || chunk.web.uri;
+    const { title, pageNumber } = chunk.retrievedContext || {};
+    return [title || 'Document', pageNumber ? `page ${pageNumber}` : null].filter(Boolean).join(', ');
+}
+
+const ratio = (count: number, total: number) => Math.round((count / total) * 1000) / 1000;
+
+export function scoreAnswer(question: GoldenQuestion, result: QueryResult, latencyMs: number): QuestionResult {
+    const chunkTexts = result.groundingChunks.map(chunk => chunk.retrievedContext?.text || '');
+    const matchesSource = (text: string, snippet: string) => containsText(text, snippet, SOURCE_MATCH_THRESHOLD);
+
+    const factsFound = question.expectedFacts.filter(fact => containsText(result.text, fact, FACT_MATCH_THRESHOLD));
+    const sourcesFound = question.expectedSources.filter(snippet => chunkTexts.some(text => matchesSource(text, snippet)));
+    const cited = Array.from(new Set((result.groundingSupports || []).flatMap(support => support.groundingChunkIndices || [])))
+        .filter(index => index < chunkTexts.length);
+    const correctCitations = cited.filter(index => question.expectedSources.some(snippet => matchesSource(chunkTexts[index], snippet)));
+
+    const hasSources = question.expectedSources.length > 0;
+    return {
+        id: question.id,
+        question: question.question,
+        answer: result.text,
+        sources: result.groundingChunks.map(describeChunk),
+        factsFound,
+        factsMissing: question.expectedFacts.filter(fact => !factsFound.includes(fact)),
+        sourcesFound,
+        sourcesMissing: question.expectedSources.filter(snippet => !sourcesFound.includes(snippet)),
+        hit: hasSources ? sourcesFound.length > 0 : null,
+        factCoverage: question.expectedFacts.length > 0 ? ratio(factsFound.length, question.expectedFacts.length) : null,
+        // An answer that cites nothing when sources are expected scores 0.
+        citationCorrectness: hasSources ? (cited.length > 0 ? ratio(correctCitations.length, cited.length) : 0) : null,
+        latencyMs,
+    };
+}
+
+/** The result for a question whose request failed; it counts against every metric it was scored on. */
+export function failedAnswer(question: GoldenQuestion, error: unknown, latencyMs: number): QuestionResult {
+    return {
+        ...scoreAnswer(question, { text: '', groundingChunks: [] }, latencyMs),
+        error: error instanceof Error ? error.message : String(error),
+    };
+}
+
+function mean(values: (number | null)[]): number | null {
+    const scored = values.filter((value): value is number => value !== null);
+    return scored.length > 0 ? ratio(scored.reduce((sum, value) => sum + value, 0), scored.length) : null;
+}
+
+export function summarize(results: QuestionResult[]): EvaluationSummary {
+    return {
+        questions: results.length,
+        errors: results.filter(result => result.error).length,
+        hitRate: mean(results.map(result => result.hit === null ? null : Number(result.hit))),
+        factCoverage: mean(results.map(result => result.factCoverage)),
+        citationCorrectness: mean(results.map(result => result.citationCorrectness)),
+    };
+}
+
+export const METRICS: { key: 'hitRate' | 'factCoverage' | 'citationCorrectness'; label: string }[] = [
+    { key: 'hitRate', label: 'Retrieval hit rate' },
+    { key: 'factCoverage', label: 'Fact coverage' },
+    { key: 'citationCorrectness', label: 'Citation correctness' },
+];
+
+export function formatScore(value: number | null): string {
+    return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+/** The change from `baseline` as "+4.0 pts", or an empty string when either side wasn't scored. */
+export function formatDelta(value: number | null, baseline: number | null | undefined): string {
+    if (value === null || baseline === null || baseline === undefined) return '';
+    const points = (value - baseline) * 100;
+    return `${points >= 0 ? '+' : ''}${points.toFixed(1)} pts`;
+}
+
+const questionScore = (result: QuestionResult) =>
+    METRICS.map(({ key }) => key === 'hitRate' ? (result.hit === null ? null : Number(result.hit)) : result[key]);
+
+/**
+ * A standalone HTML page with the summary and every answer. With a
+ * `baseline` report, metrics show the change and questions whose scores
+ * moved are marked, matched by id.
+ */
+export function renderHtmlReport(report: EvaluationReport, baseline?: EvaluationReport): string {
+    const baselineResults = new Map((baseline?.results || []).map(result => [result.id, result]));
+    const summaryRows = METRICS.map(({ key, label }) => {
+        const delta = formatDelta(report.summary[key], baseline?.summary[key]);
+        return `<tr><th>${label}</th><td>${formatScore(report.summary[key])}</td>${baseline ? `<td class="${delta.startsWith('-') ? 'worse' : 'better'}">${escapeHtml(delta)}</td>` : ''}</tr>`;
+    }).join('\n');
+
+    const list = (items: string[], className: string) => items.length > 0
+        ? `<ul class="${className}">${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : '';
+
+    const questionSections = report.results.map(result => {
+        const before = baselineResults.get(result.id);
+        const changed = before && questionScore(before).some((score, i) => score !== questionScore(result)[i]);
+        const scores = METRICS.map(({ key, label }, i) => {
+            const delta = before ? formatDelta(questionScore(result)[i], questionScore(before)[i]) : '';
+            return `<span>${label}: ${formatScore(questionScore(result)[i])}${delta && delta !== '+0.0 pts' ? ` <em>(${escapeHtml(delta)})</em>` : ''}</span>`;
+        }).join(' · ');
+        return `<section class="question${result.error ? ' failed' : ''}${changed ? ' changed' : ''}" id="${escapeHtml(result.id)}">
+<h3>${escapeHtml(result.id)}: ${escapeHtml(result.question)}</h3>
+<p class="scores">${scores} · ${result.latencyMs} ms</p>
+${result.error ? `<p class="error">${escapeHtml(result.error)}</p>` : `<pre>${escapeHtml(result.answer)}</pre>`}
+${list(result.factsMissing.map(fact => `Missing fact: ${fact}`), 'missing')}
+${list(result.sourcesMissing.map(snippet => `Source not retrieved: ${snippet}`), 'missing')}
+${list(result.sources, 'sources')}
+</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Evaluation: ${escapeHtml(report.goldenSet)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.5; }
+.meta, .scores, .sources { color: #64748b; font-size: 0.9rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #cbd5e1; padding: 0.25rem 0.75rem; text-align: left; }
+.better { color: #15803d; }
+.worse { color: #b91c1c; }
+.question { padding: 0.75rem 1rem; border: 1px solid #e2e8f0; border-radius: 0.75rem; margin: 1rem 0; }
+.question.changed { border-color: #2563eb; }
+.question.failed { border-color: #b91c1c; }
+.question h3 { margin: 0; font-size: 1rem; }
+.missing, .error { color: #b91c1c; }
+pre { background: #f8fafc; padding: 0.75rem; border-radius: 0.5rem; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>Evaluation: ${escapeHtml(report.goldenSet)}</h1>
+<p class="meta">${escapeHtml([report.createdAt, report.provider, report.model, report.promptTemplateId].join(' · '))}<br/>${report.summary.questions} questions, ${report.summary.errors} failed${baseline ? `<br/>Compared with the run of ${escapeHtml(baseline.createdAt)} (${escapeHtml(baseline.provider)} · ${escapeHtml(baseline.model)})` : ''}</p>
+<table>
+${summaryRows}
+</table>
+${questionSections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ChatSession, ChatTree, GroundingChunk, SearchSource } from '../types';
+import { insertCitationMarkers, CITATION_MARKER_PATTERN } from './citations';
+import { escapeHtml, renderMarkdown } from './markdown';
+import { describeSearchSource } from './conversation';
+import { activePath, activePathIds, branchPosition, isChatTree, mapMessages } from './chatTree';
+
+export const EXPORT_FORMAT = 'mnemomind-conversation';
+// Version 2 adds `tree` with every branch of the conversation.
+export const EXPORT_VERSION = 2;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export interface ConversationExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    title: string;
+    documentName: string;
+    searchSource: SearchSource;
+    ragStoreName: string | null;
+    /** The branch that was shown when exporting. */
+    messages: ChatMessage[];
+    tree?: ChatTree;
+}
+
+export interface ExportMeta {
+    title: string;
+    documentName: string;
+    searchSource: SearchSource;
+    ragStoreName: string | null;
+    exportedAt?: Date;
+    /** The conversation's branches; exported messages must be its active path. */
+    tree?: ChatTree;
+}
+
+interface Footnote {
+    label: number;
+    chunk: GroundingChunk;
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function describeChunk(chunk: GroundingChunk): string {
+    if (chunk.web?.uri) {
+        return chunk.web.title ? `${chunk.web.title} (${chunk.web.uri})` : chunk.web.uri;
+    }
+    const { title, pageNumber } = chunk.retrievedContext || {};
+    return [title || 'Document', pageNumber ? `page ${pageNumber}` : null].filter(Boolean).join(', ');
+}
+
+/**
+ * Numbers every grounding chunk across the whole conversation so footnote
+ * labels stay unique, and inserts the per-message citation markers that each
+ * exporter swaps for those labels.
+ */
+function numberSources(history: ChatMessage[]): { texts: string[]; footnotes: Footnote[][] } {
+    let next = 1;
+    const texts: string[] = [];
+    const footnotes: Footnote[][] = [];
+
+    history.forEach(message => {
+        const chunks = message.groundingChunks || [];
+        const labels = chunks.map(() => next++);
+        footnotes.push(chunks.map((chunk, i) => ({ label: labels[i], chunk })));
+
+        const text = message.parts.map(part => part.text).join('\n');
+        texts.push(message.role === 'model'
+            ? insertCitationMarkers(text, message.groundingSupports)
+            : text);
+    });
+
+    return { texts, footnotes };
+}
+
+/** Headings like "Answer (2 of 3)" so readers know other versions exist. */
+function messageHeadings(history: ChatMessage[], tree?: ChatTree): string[] {
+    const ids = tree ? activePathIds(tree) : [];
+    return history.map((message, index) => {
+        const heading = message.role === 'user' ? 'Question' : 'Answer';
+        const { index: position, count } = ids[index] && tree ? branchPosition(tree, ids[index]) : { index: 0, count: 1 };
+        return count > 1 ? `${heading} (${position + 1} of ${count})` : heading;
+    });
+}
+
+function formatTimestamp(date: Date): string {
+    return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+export function exportToMarkdown(history: ChatMessage[], meta: ExportMeta): string {
+    const exportedAt = meta.exportedAt || new Date();
+    const { texts, footnotes } = numberSources(history);
+    const headings = messageHeadings(history, meta.tree);
+    const lines: string[] = [
+        `# ${meta.title}`,
+        '',
+        `- **Source:** ${describeSearchSource(meta.searchSource, meta.documentName)}`,
+        `- **Exported:** ${formatTimestamp(exportedAt)}`,
+        '',
+    ];
+
+    history.forEach((message, index) => {
+        const labels = footnotes[index];
+        const body = texts[index].replace(CITATION_MARKER_PATTERN, (_match, list: string) =>
+            list.split(',').map(i => labels[Number(i)] ? `[^${labels[Number(i)].label}]` : '').join(''));
+        lines.push(`## ${headings[index]}`, '', body);
+        if (message.role === 'model' && labels.length > 0) {
+            const uncited = labels.filter(({ label }) => !body.includes(`[^${label}]`));
+            if (uncited.length > 0) {
+                lines.push('', `Sources: ${uncited.map(({ label }) => `[^${label}]`).join(' ')}`);
+            }
+        }
+        lines.push('');
+    });
+
+    const allFootnotes = footnotes.flat();
+    if (allFootnotes.length > 0) {
+        lines.push('---', '');
+        allFootnotes.forEach(({ label, chunk }) => {
+            const excerpt = chunk.retrievedContext?.text ? ` — "${collapseWhitespace(chunk.retrievedContext.text)}"` : '';
+            lines.push(`[^${label}]: ${describeChunk(chunk)}${excerpt}`);
+        });
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+export function exportToHtml(history: ChatMessage[], meta: ExportMeta): string {
+    const exportedAt = meta.exportedAt || new Date();
+    const { texts, footnotes } = numberSources(history);
+    const headings = messageHeadings(history, meta.tree);
+
+    const messagesHtml = history.map((message, index) => {
+        const labels = footnotes[index];
+        // The renderer escapes the text but leaves the private-use markers for footnote links.
+        const body = renderMarkdown(texts[index], { copyButtons: false }).replace(CITATION_MARKER_PATTERN, (_match, list: string) =>
+            list.split(',').map(i => labels[Number(i)]
+                ? `<sup><a href="#source-${labels[Number(i)].label}">${labels[Number(i)].label}</a></sup>`
+                : '').join(''));
+        const sources = message.role === 'model' && labels.length > 0
+            ? `<p class="sources">Sources: ${labels.map(({ label }) => `<a href="#source-${label}">[${label}]</a>`).join(' ')}</p>`
+            : '';
+        return `<section class="message ${message.role}">\n<h2>${escapeHtml(headings[index])}</h2>\n${body}\n${sources}\n</section>`;
+    }).join('\n');
+
+    const sourcesHtml = footnotes.flat().map(({ label, chunk }) => {
+        const heading = chunk.web?.uri && /^https?:\/\//i.test(chunk.web.uri)
+            ? `<a href="${escapeHtml(chunk.web.uri)}">${escapeHtml(chunk.web.title || chunk.web.uri)}</a>`
+            : escapeHtml(describeChunk(chunk));
+        const excerpt = chunk.retrievedContext?.text
+            ? `<blockquote>${escapeHtml(chunk.retrievedContext.text).replace(/\n/g, '<br/>')}</blockquote>`
+            : '';
+        return `<li id="source-${label}" value="${label}">${heading}${excerpt}</li>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(meta.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.5; }
+.meta { color: #64748b; }
+.message { padding: 0.75rem 1rem; border-radius: 0.75rem; margin: 1rem 0; }
+.message.user { background: #eff6ff; }
+.message.model { background: #f8fafc; border: 1px solid #e2e8f0; }
+.message h2 { font-size: 0.8rem; text-transform: uppercase; color: #64748b; margin: 0; }
+.sources { font-size: 0.85rem; color: #64748b; }
+pre { background: #f1f5f9; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+th, td { border: 1px solid #cbd5e1; padding: 0.25rem 0.5rem; }
+blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 3px solid #2563eb; color: #475569; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(meta.title)}</h1>
+<p class="meta">Source: ${escapeHtml(describeSearchSource(meta.searchSource, meta.documentName))}<br/>Exported: ${escapeHtml(formatTimestamp(exportedAt))}</p>
+${messagesHtml}
+${sourcesHtml ? `<h2>Sources</h2>\n<ol>\n${sourcesHtml}\n</ol>` : ''}
+</body>
+</html>
+`;
+}
+
+export function exportToJson(history: ChatMessage[], meta: ExportMeta): string {
+    const data: ConversationExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: (meta.exportedAt || new Date()).toISOString(),
+        title: meta.title,
+        documentName: meta.documentName,
+        searchSource: meta.searchSource,
+        ragStoreName: meta.ragStoreName,
+        messages: history.map(({ isStreaming, ...message }) => message),
+        tree: meta.tree && mapMessages(meta.tree, ({ isStreaming, ...message }) => message),
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Validates a JSON export and turns it into a fresh session. A new id is
+ * assigned so importing never overwrites an existing conversation.
+ */
+export function importConversation(json: string): ChatSession {
+    const data = JSON.parse(json) as Partial<ConversationExport>;
+    if (data.format !== EXPORT_FORMAT || !Array.isArray(data.messages)) {
+        throw new Error("This file is not a MnemoMind conversation export.");
+    }
+    if ((data.version || 0) > EXPORT_VERSION) {
+        throw new Error(`Unsupported export version ${data.version}.`);
+    }
+
+    // A damaged tree is dropped in favour of the flat transcript rather than failing the import.
+    const tree = isChatTree(data.tree) ? data.tree : undefined;
+    const messages = tree ? activePath(tree) : data.messages.filter((message): message is ChatMessage =>
+        !!message && (message.role === 'user' || message.role === 'model') && Array.isArray(message.parts));
+    const exportedAt = data.exportedAt ? Date.parse(data.exportedAt) : NaN;
+    const timestamp = Number.isNaN(exportedAt) ? Date.now() : exportedAt;
+
+    return {
+        id: crypto.randomUUID(),
+        title: data.title || 'Imported conversation',
+        createdAt: timestamp,
+        updatedAt: Date.now(),
+        searchSource: data.searchSource === SearchSource.GoogleSearch || data.searchSource === SearchSource.Hybrid ? data.searchSource : SearchSource.FileSearch,
+        documentName: data.documentName || '',
+        ragStoreName: data.ragStoreName || null,
+        messages,
+        tree,
+    };
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'conversation';
+}
+
+export function exportFileName(title: string, extension: string, date: Date = new Date()): string {
+    return `${slugify(title)}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AnswerFeedback } from '../types';
+import { FEEDBACK_STORE, withStore, promisifyRequest } from './localDb';
+
+/** Which entries the review screen shows. */
+export type FeedbackFilter = 'all' | 'up' | 'down' | 'wrongSource';
+
+export async function saveFeedback(feedback: AnswerFeedback): Promise<void> {
+    await withStore(FEEDBACK_STORE, 'readwrite', store => promisifyRequest(store.put(feedback)));
+}
+
+export async function deleteFeedback(id: string): Promise<void> {
+    await withStore(FEEDBACK_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+}
+
+/** Every entry, newest first. */
+export async function listFeedback(): Promise<AnswerFeedback[]> {
+    const entries = await withStore(FEEDBACK_STORE, 'readonly', store => promisifyRequest<AnswerFeedback[]>(store.getAll()));
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function listSessionFeedback(sessionId: string): Promise<AnswerFeedback[]> {
+    return withStore(FEEDBACK_STORE, 'readonly', store =>
+        promisifyRequest<AnswerFeedback[]>(store.index('sessionId').getAll(IDBKeyRange.only(sessionId))));
+}
+
+export function filterFeedback(entries: AnswerFeedback[], filter: FeedbackFilter): AnswerFeedback[] {
+    switch (filter) {
+        case 'all': return entries;
+        case 'wrongSource': return entries.filter(entry => entry.wrongSource);
+        default: return entries.filter(entry => entry.rating === filter);
+    }
+}
+
+/**
+ * One JSON object per line, oldest first, so exports can be appended to a
+ * regression set. Source excerpts are kept because they are what a wrong-source
+ * flag refers to.
+ */
+export function feedbackToJsonl(entries: AnswerFeedback[]): string {
+    return [...entries]
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(entry => JSON.stringify(entry))
+        .join('\n') + (entries.length > 0 ? '\n' : '');
+}
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { convertedFileName, convertFiles } from './fileConversion';
+
+describe('convertedFileName', () => {
+    it('renames converted formats to Markdown and keeps the rest', () => {
+        expect(convertedFileName('brewline-manual.html')).toBe('brewline-manual.md');
+        expect(convertedFileName('prices.v2.XLSX')).toBe('prices.v2.md');
+        expect(convertedFileName('manual.pdf')).toBe('manual.pdf');
+        expect(convertedFileName('notes.md')).toBe('notes.md');
+    });
+
+    it('matches the name convertFiles gives the converted file', async () => {
+        const csv = new File(['model,year\nNimbus,2024\n'], 'models.csv', { type: 'text/csv' });
+        const { files, rejected } = await convertFiles([csv]);
+        expect(rejected).toEqual([]);
+        expect(files.map(file => file.name)).toEqual([convertedFileName(csv.name)]);
+    });
+});
@@ -0,0 +1,440 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { unzip, Unzipped, UnzipFileInfo } from 'fflate';
+import { OCR_IMAGE_EXTENSIONS } from './ocr';
+
+/**
+ * Normalizes uploads before they reach a search provider. PDF, TXT and
+ * Markdown pass through unchanged; DOCX, HTML, CSV, XLSX and JSON are
+ * converted to Markdown in the browser, and ZIP archives are unpacked into
+ * their individual documents. Images are only let through when OCR will turn
+ * them into text. Anything that can't be handled is returned as
+ * rejected with a reason instead of failing the whole batch.
+ */
+
+/** File Search accepts documents up to 100 MB. */
+export const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
+/** Limits for a single archive, so a crafted ZIP can't exhaust memory. */
+export const MAX_ARCHIVE_ENTRIES = 200;
+export const MAX_ARCHIVE_SIZE_BYTES = 300 * 1024 * 1024;
+
+const PASS_THROUGH_EXTENSIONS = ['.pdf', '.txt', '.md', '.markdown'];
+const CONVERTED_EXTENSIONS = ['.docx', '.html', '.htm', '.csv', '.xlsx', '.json'];
+const ARCHIVE_EXTENSIONS = ['.zip'];
+
+export const ACCEPTED_EXTENSIONS = [...PASS_THROUGH_EXTENSIONS, ...CONVERTED_EXTENSIONS, ...ARCHIVE_EXTENSIONS];
+/** Value for an `<input type="file" accept>` attribute. */
+export const ACCEPT_ATTRIBUTE = ACCEPTED_EXTENSIONS.join(',');
+
+// Archive entries carry no MIME type, and uploads need one.
+const MIME_TYPES: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.markdown': 'text/markdown',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.bmp': 'image/bmp',
+};
+
+const LEGACY_FORMAT_HINTS: Record<string, string> = {
+    '.doc': 'Legacy Word documents are not supported; save the file as .docx.',
+    '.xls': 'Legacy Excel workbooks are not supported; save the file as .xlsx.',
+};
+
+export interface RejectedFile {
+    name: string;
+    reason: string;
+}
+
+export interface ConversionOptions {
+    /** Accept photos of pages; only useful when they go through OCR before upload. */
+    allowImages?: boolean;
+}
+
+export interface ConversionResult {
+    files: File[];
+    rejected: RejectedFile[];
+}
+
+function extensionOf(name: string): string {
+    const match = name.toLowerCase().match(/\.[a-z0-9]+$/);
+    return match ? match[0] : '';
+}
+
+function formatSize(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+}
+
+/** Returns why a file can't be uploaded, or null if it can. */
+export function validateFile(file: File, options: ConversionOptions = {}): string | null {
+    const extension = extensionOf(file.name);
+    if (LEGACY_FORMAT_HINTS[extension]) return LEGACY_FORMAT_HINTS[extension];
+    if (OCR_IMAGE_EXTENSIONS.includes(extension)) {
+        if (!options.allowImages) return 'Images can only be added with OCR turned on.';
+    } else if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+        return `Unsupported file type${extension ? ` ${extension}` : ''}. Supported: ${ACCEPTED_EXTENSIONS.join(', ')}.`;
+    }
+    if (file.size === 0) return 'The file is empty.';
+    if (file.size > MAX_FILE_SIZE_BYTES) return `The file is larger than ${formatSize(MAX_FILE_SIZE_BYTES)}.`;
+    return null;
+}
+
+/** The name a document is uploaded under: converted formats become `.md`, the rest keep their name. */
+export function convertedFileName(name: string): string {
+    return CONVERTED_EXTENSIONS.includes(extensionOf(name)) ? name.replace(/\.[^./]+$/, '') + '.md' : name;
+}
+
+/** Joins Markdown blocks with blank lines, keeping consecutive list items together. */
+function joinBlocks(blocks: string[]): string {
+    const isListItem = (block: string) => /^\s*(?:-|\d+\.) /.test(block);
+    return blocks.reduce((markdown, block, index) => {
+        if (index === 0) return block;
+        const separator = isListItem(block) && isListItem(blocks[index - 1]) ? '\n' : '\n\n';
+        return markdown + separator + block;
+    }, '') + '\n';
+}
+
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+}
+
+/** Renders rows as a GFM table, using the first row as the header. */
+export function toMarkdownTable(rows: string[][]): string {
+    const width = Math.max(0, ...rows.map(row => row.length));
+    if (rows.length === 0 || width === 0) return '';
+    const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => escapeCell(row[i] || '')).join(' | ')} |`;
+    return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+}
+
+/** Parses CSV (or semicolon/tab separated) text, honouring quoted fields. */
+export function parseCsv(text: string): string[][] {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function convertJson(text: string): string {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return '```json\n' + JSON.stringify(parsed, null, 2) + '\n```\n';
+}
+
+const SKIPPED_HTML_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head']);
+const BLOCK_HTML_ELEMENTS = new Set(['p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'blockquote', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'form', 'fieldset']);
+
+/** Converts an HTML page to Markdown, keeping headings, lists, tables and code blocks. */
+export function htmlToMarkdown(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const blocks: string[] = [];
+    let inline = '';
+    const flush = () => {
+        const text = inline.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+        if (text) blocks.push(text);
+        inline = '';
+    };
+
+    const walk = (node: Node, listDepth: number) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            inline += (node.textContent || '').replace(/\s+/g, ' ');
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const element = node as Element;
+        const tag = element.tagName.toLowerCase();
+        if (SKIPPED_HTML_ELEMENTS.has(tag)) return;
+
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) {
+            flush();
+            const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+            if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+        } else if (tag === 'br') {
+            inline += '\n';
+        } else if (tag === 'pre') {
+            flush();
+            blocks.push('```\n' + (element.textContent || '').replace(/\n+$/, '') + '\n```');
+        } else if (tag === 'table') {
+            flush();
+            const rows = Array.from(element.querySelectorAll('tr')).map(tr =>
+                Array.from(tr.querySelectorAll('th, td')).map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()));
+            const table = toMarkdownTable(rows);
+            if (table) blocks.push(table);
+        } else if (tag === 'ul' || tag === 'ol') {
+            flush();
+            Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li').forEach((item, index) => {
+                const marker = tag === 'ol' ? `${index + 1}.` : '-';
+                const nested: Element[] = [];
+                Array.from(item.childNodes).forEach(child => {
+                    const childTag = (child as Element).tagName?.toLowerCase();
+                    if (childTag === 'ul' || childTag === 'ol') nested.push(child as Element);
+                    else walk(child, listDepth + 1);
+                });
+                const text = inline.replace(/\s+/g, ' ').trim();
+                inline = '';
+                if (text) blocks.push(`${'  '.repeat(listDepth)}${marker} ${text}`);
+                nested.forEach(list => walk(list, listDepth + 1));
+            });
+        } else {
+            const isBlock = BLOCK_HTML_ELEMENTS.has(tag);
+            if (isBlock) flush();
+            element.childNodes.forEach(child => walk(child, listDepth));
+            if (isBlock) flush();
+        }
+    };
+
+    const title = doc.querySelector('title')?.textContent?.trim();
+    if (title && !doc.querySelector('h1')) blocks.push(`# ${title}`);
+    walk(doc.body, 0);
+    flush();
+    return joinBlocks(blocks);
+}
+
+function unzipAsync(data: Uint8Array, filter: (file: UnzipFileInfo) => boolean): Promise<Unzipped> {
+    return new Promise((resolve, reject) => {
+        unzip(data, { filter }, (error, files) => error ? reject(error) : resolve(files));
+    });
+}
+
+async function readZipEntries(file: File, names: (name: string) => boolean): Promise<Record<string, string>> {
+    const entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()), info => names(info.name));
+    const decoder = new TextDecoder();
+    return Object.fromEntries(Object.entries(entries).map(([name, data]) => [name, decoder.decode(data)]));
+}
+
+function parseXml(text: string): Document {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The document XML is malformed.');
+    }
+    return doc;
+}
+
+const childrenNamed = (element: Element, localName: string) =>
+    Array.from(element.children).filter(child => child.localName === localName);
+
+const descendantsNamed = (element: Element, localName: string) =>
+    Array.from(element.getElementsByTagName('*')).filter(child => child.localName === localName);
+
+function docxRunText(paragraph: Element): string {
+    let text = '';
+    for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+        if (node.localName === 't') text += node.textContent || '';
+        else if (node.localName === 'tab') text += '\t';
+        else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    }
+    return text;
+}
+
+function docxParagraph(paragraph: Element): string {
+    const text = docxRunText(paragraph).trim();
+    if (!text) return '';
+    const properties = childrenNamed(paragraph, 'pPr')[0];
+    const style = properties && childrenNamed(properties, 'pStyle')[0]?.getAttribute('w:val') || '';
+    const heading = style.match(/^heading\s*(\d)$/i);
+    if (heading) return `${'#'.repeat(Math.min(6, Number(heading[1])))} ${text}`;
+    if (/^title$/i.test(style)) return `# ${text}`;
+    if (properties && childrenNamed(properties, 'numPr').length > 0) return `- ${text}`;
+    return text;
+}
+
+/** Converts a DOCX body to Markdown: headings, list items, paragraphs and tables. */
+export async function docxToMarkdown(file: File): Promise<string> {
+    const entries = await readZipEntries(file, name => name === 'word/document.xml');
+    const xml = entries['word/document.xml'];
+    if (!xml) throw new Error('Not a Word document: word/document.xml is missing.');
+    const body = descendantsNamed(parseXml(xml).documentElement, 'body')[0];
+    if (!body) return '';
+
+    const blocks: string[] = [];
+    for (const element of Array.from(body.children)) {
+        if (element.localName === 'p') {
+            const paragraph = docxParagraph(element);
+            if (paragraph) blocks.push(paragraph);
+        } else if (element.localName === 'tbl') {
+            const rows = childrenNamed(element, 'tr').map(row => childrenNamed(row, 'tc').map(cell =>
+                childrenNamed(cell, 'p').map(docxRunText).join(' ').trim()));
+            const table = toMarkdownTable(rows);
+            if (table) blocks.push(table);
+        }
+    }
+    return joinBlocks(blocks);
+}
+
+/** Converts a column reference such as "AB" to a zero-based index. */
+function columnIndex(reference: string): number {
+    const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/** Converts every worksheet to a Markdown table under a heading with the sheet name. */
+export async function xlsxToMarkdown(file: File): Promise<string> {
+    const entries = await readZipEntries(file, name =>
+        name === 'xl/workbook.xml' || name === 'xl/_rels/workbook.xml.rels' || name === 'xl/sharedStrings.xml'
+        || /^xl\/worksheets\/[^/]+\.xml$/.test(name));
+    if (!entries['xl/workbook.xml']) throw new Error('Not an Excel workbook: xl/workbook.xml is missing.');
+
+    const sharedStrings = entries['xl/sharedStrings.xml']
+        ? descendantsNamed(parseXml(entries['xl/sharedStrings.xml']).documentElement, 'si')
+            .map(item => descendantsNamed(item, 't').map(t => t.textContent || '').join(''))
+        : [];
+    const targets = new Map(entries['xl/_rels/workbook.xml.rels']
+        ? descendantsNamed(parseXml(entries['xl/_rels/workbook.xml.rels']).documentElement, 'Relationship')
+            .map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target')?.replace(/^\/?(xl\/)?/, 'xl/')])
+        : []);
+
+    const sections: string[] = [];
+    for (const sheet of descendantsNamed(parseXml(entries['xl/workbook.xml']).documentElement, 'sheet')) {
+        const target = targets.get(sheet.getAttribute('r:id'));
+        const xml = target && entries[target];
+        if (!xml) continue;
+
+        const rows = descendantsNamed(parseXml(xml).documentElement, 'row').map(row => {
+            const cells: string[] = [];
+            childrenNamed(row, 'c').forEach((cell, position) => {
+                const reference = cell.getAttribute('r');
+                const index = reference ? columnIndex(reference) : position;
+                const type = cell.getAttribute('t');
+                const value = childrenNamed(cell, 'v')[0]?.textContent || '';
+                if (type === 's') cells[index] = sharedStrings[Number(value)] || '';
+                else if (type === 'inlineStr') cells[index] = descendantsNamed(cell, 't').map(t => t.textContent || '').join('');
+                else if (type === 'b') cells[index] = value === '1' ? 'TRUE' : 'FALSE';
+                else cells[index] = value;
+            });
+            return Array.from(cells, cell => cell || '');
+        }).filter(cells => cells.some(cell => cell.trim()));
+
+        const table = toMarkdownTable(rows);
+        if (table) sections.push(`## ${sheet.getAttribute('name') || 'Sheet'}\n\n${table}`);
+    }
+    return sections.join('\n\n') + '\n';
+}
+
+async function convertDocument(file: File): Promise<File> {
+    const extension = extensionOf(file.name);
+    let markdown: string;
+    switch (extension) {
+        case '.docx': markdown = await docxToMarkdown(file); break;
+        case '.html':
+        case '.htm': markdown = htmlToMarkdown(await file.text()); break;
+        case '.csv': markdown = toMarkdownTable(parseCsv(await file.text())) + '\n'; break;
+        case '.xlsx': markdown = await xlsxToMarkdown(file); break;
+        case '.json': markdown = convertJson(await file.text()); break;
+        default: return file;
+    }
+    if (!markdown.trim()) throw new Error('No text could be extracted.');
+    const converted = new File([markdown], convertedFileName(file.name), { type: 'text/markdown' });
+    if (converted.size > MAX_FILE_SIZE_BYTES) throw new Error(`The converted text is larger than ${formatSize(MAX_FILE_SIZE_BYTES)}.`);
+    return converted;
+}
+
+/** Unpacks an archive into files named after their path inside it. Nested archives are rejected. */
+async function unpackArchive(archive: File, options: ConversionOptions): Promise<ConversionResult> {
+    const rejected: RejectedFile[] = [];
+    let entryCount = 0;
+    let totalSize = 0;
+    const entries = await unzipAsync(new Uint8Array(await archive.arrayBuffer()), info => {
+        const baseName = info.name.split('/').pop() || '';
+        if (info.name.endsWith('/') || info.name.startsWith('__MACOSX/') || baseName.startsWith('.')) return false;
+        if (entryCount >= MAX_ARCHIVE_ENTRIES || totalSize + info.originalSize > MAX_ARCHIVE_SIZE_BYTES) {
+            rejected.push({ name: `${archive.name}/${info.name}`, reason: `Skipped: the archive exceeds ${MAX_ARCHIVE_ENTRIES} files or ${formatSize(MAX_ARCHIVE_SIZE_BYTES)}.` });
+            return false;
+        }
+        entryCount++;
+        totalSize += info.originalSize;
+        return true;
+    });
+
+    const files: File[] = [];
+    for (const [path, data] of Object.entries(entries)) {
+        const entry = new File([data], path, { type: MIME_TYPES[extensionOf(path)] || '' });
+        const reason = validateFile(entry, options) || (ARCHIVE_EXTENSIONS.includes(extensionOf(path)) ? 'Nested archives are not supported.' : null);
+        if (reason) rejected.push({ name: `${archive.name}/${path}`, reason });
+        else files.push(entry);
+    }
+    return { files, rejected };
+}
+
+/**
+ * Validates and converts `files` into uploadable PDF, text or Markdown files.
+ * Archives are expanded, so the result may contain more files than the input.
+ */
+export async function convertFiles(files: File[], options: ConversionOptions = {}): Promise<ConversionResult> {
+    const result: ConversionResult = { files: [], rejected: [] };
+    const convertOne = async (file: File, displayName: string) => {
+        try {
+            result.files.push(await convertDocument(file));
+        } catch (error) {
+            result.rejected.push({ name: displayName, reason: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    for (const file of files) {
+        const reason = validateFile(file, options);
+        if (reason) {
+            result.rejected.push({ name: file.name, reason });
+            continue;
+        }
+        if (!ARCHIVE_EXTENSIONS.includes(extensionOf(file.name))) {
+            await convertOne(file, file.name);
+            continue;
+        }
+        try {
+            const unpacked = await unpackArchive(file, options);
+            result.rejected.push(...unpacked.rejected);
+            for (const entry of unpacked.files) {
+                await convertOne(entry, `${file.name}/${entry.name}`);
+            }
+            if (unpacked.files.length === 0 && unpacked.rejected.length === 0) {
+                result.rejected.push({ name: file.name, reason: 'The archive contains no documents.' });
+            }
+        } catch (error) {
+            result.rejected.push({ name: file.name, reason: `Could not read the archive: ${error instanceof Error ? error.message : String(error)}` });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+    GenerateContentParameters, GenerateContentResponse, CreateFileSearchStoreParameters, ListFileSearchStoresParameters,
+    GetFileSearchStoreParameters, DeleteFileSearchStoreParameters, UploadToFileSearchStoreParameters,
+    UploadToFileSearchStoreOperation, ListDocumentsParameters, DeleteDocumentParameters, OperationGetParameters,
+    Operation, FileSearchStore, Document as GenAIDocument,
+} from "@google/genai";
+
+/**
+ * Record/replay for the Gemini API. A recording client passes every call
+ * through to the real client and keeps the request and response, including
+ * each poll of a long-running upload operation. A replaying client answers the
+ * same calls from the saved fixture without a network, so flows like
+ * upload → suggestions → query → sources run the same way every time.
+ */
+
+export const FIXTURE_VERSION = 1;
+/** Where `GEMINI_FIXTURES=replay` loads its fixture from in the browser. */
+export const GEMINI_FIXTURE_URL = process.env.GEMINI_FIXTURE_URL || '/fixtures/gemini.json';
+
+/** The parts of `GoogleGenAI` that geminiService uses. */
+export interface GeminiClient {
+    models: {
+        generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+        generateContentStream(params: GenerateContentParameters): Promise<AsyncIterable<GenerateContentResponse>>;
+    };
+    fileSearchStores: {
+        create(params: CreateFileSearchStoreParameters): Promise<FileSearchStore>;
+        list(params?: ListFileSearchStoresParameters): Promise<AsyncIterable<FileSearchStore>>;
+        get(params: GetFileSearchStoreParameters): Promise<FileSearchStore>;
+        delete(params: DeleteFileSearchStoreParameters): Promise<void>;
+        uploadToFileSearchStore(params: UploadToFileSearchStoreParameters): Promise<UploadToFileSearchStoreOperation>;
+        documents: {
+            list(params: ListDocumentsParameters): Promise<AsyncIterable<GenAIDocument>>;
+            delete(params: DeleteDocumentParameters): Promise<void>;
+        };
+    };
+    operations: {
+        get<T, U extends Operation<T>>(parameters: OperationGetParameters<T, U>): Promise<Operation<T>>;
+    };
+}
+
+export type GeminiMethod =
+    | 'models.generateContent'
+    | 'models.generateContentStream'
+    | 'fileSearchStores.create'
+    | 'fileSearchStores.list'
+    | 'fileSearchStores.get'
+    | 'fileSearchStores.delete'
+    | 'fileSearchStores.uploadToFileSearchStore'
+    | 'fileSearchStores.documents.list'
+    | 'fileSearchStores.documents.delete'
+    | 'operations.get';
+
+export interface GeminiInteraction {
+    method: GeminiMethod;
+    request: unknown;
+    response?: unknown;
+    /** Items of a paged list call. */
+    items?: unknown[];
+    /** Responses of a streaming call, in order. */
+    chunks?: unknown[];
+    /** Message of the error the call failed with; streams fail after their chunks. */
+    error?: string;
+}
+
+export interface GeminiFixture {
+    version: number;
+    recordedAt: string;
+    interactions: GeminiInteraction[];
+}
+
+export interface ReplayOptions {
+    /**
+     * When no unused interaction has the same request, answer with the next
+     * unused call of the same method instead of throwing, e.g. for a flow
+     * that names libraries after the current time.
+     */
+    lenient?: boolean;
+}
+
+/**
+ * Turns a request or response into plain JSON with sorted keys, so fixtures
+ * diff cleanly and requests can be compared as strings. Abort signals and
+ * HTTP details are dropped, and files are reduced to their name, size and type.
+ */
+function toRecordable(value: unknown): unknown {
+    if (typeof value === 'function' || (typeof AbortSignal !== 'undefined' && value instanceof AbortSignal)) return undefined;
+    if (typeof Blob !== 'undefined' && value instanceof Blob) {
+        return { name: (value as File).name, size: value.size, type: value.type };
+    }
+    if (Array.isArray(value)) return value.map(toRecordable);
+    if (value && typeof value === 'object') {
+        const plain: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            if (key === 'abortSignal' || key === 'sdkHttpResponse') continue;
+            const recorded = toRecordable((value as Record<string, unknown>)[key]);
+            if (recorded !== undefined) plain[key] = recorded;
+        }
+        return plain;
+    }
+    return value;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/** Serves `items` the way the SDK's pagers do. */
+function iterate<T>(items: T[]): AsyncIterable<T> {
+    const values = items.values();
+    return { [Symbol.asyncIterator]: () => ({ next: async () => values.next() }) };
+}
+
+/** Wraps `client` so every call is appended to the returned fixture. */
+export function createRecorder(client: GeminiClient): { client: GeminiClient; fixture: GeminiFixture } {
+    const fixture: GeminiFixture = { version: FIXTURE_VERSION, recordedAt: new Date().toISOString(), interactions: [] };
+
+    // Interactions are added when the call starts, so the fixture keeps the order the app made them in.
+    const record = async <T>(
+        method: GeminiMethod,
+        params: unknown,
+        call: () => Promise<T>,
+        keep: (response: T) => Partial<GeminiInteraction> = response => ({ response: toRecordable(response) }),
+    ) => {
+        const interaction: GeminiInteraction = { method, request: toRecordable(params) };
+        fixture.interactions.push(interaction);
+        try {
+            const response = await call();
+            Object.assign(interaction, keep(response));
+            return response;
+        } catch (error) {
+            interaction.error = errorMessage(error);
+            throw error;
+        }
+    };
+
+    // Pagers are read to the end while recording; geminiService reads every page anyway.
+    const recordList = async <T>(method: GeminiMethod, params: unknown, call: () => Promise<AsyncIterable<T>>): Promise<AsyncIterable<T>> => {
+        const items: T[] = [];
+        await record(method, params, async () => {
+            for await (const item of await call()) items.push(item);
+        }, () => ({ items: items.map(toRecordable) }));
+        return iterate(items);
+    };
+
+    // Chunks are kept as the app reads them, so a stream stopped early is recorded up to that point.
+    const recordStream = async (params: GenerateContentParameters): Promise<AsyncIterable<GenerateContentResponse>> => {
+        const chunks: unknown[] = [];
+        const stream = await record('models.generateContentStream', params, () => client.models.generateContentStream(params), () => ({ chunks }));
+        const interaction = fixture.interactions.find(recorded => recorded.chunks === chunks)!;
+        const iterator = stream[Symbol.asyncIterator]();
+        return {
+            [Symbol.asyncIterator]: () => ({
+                next: async () => {
+                    try {
+                        const result = await iterator.next();
+                        if (!result.done) chunks.push(toRecordable(result.value));
+                        return result;
+                    } catch (error) {
+                        interaction.error = errorMessage(error);
+                        throw error;
+                    }
+                },
+            }),
+        };
+    };
+
+    return {
+        fixture,
+        client: {
+            models: {
+                generateContent: params => record('models.generateContent', params, () => client.models.generateContent(params)),
+                generateContentStream: recordStream,
+            },
+            fileSearchStores: {
+                create: params => record('fileSearchStores.create', params, () => client.fileSearchStores.create(params)),
+                list: params => recordList('fileSearchStores.list', params, () => client.fileSearchStores.list(params)),
+                get: params => record('fileSearchStores.get', params, () => client.fileSearchStores.get(params)),
+                delete: params => record('fileSearchStores.delete', params, () => client.fileSearchStores.delete(params)),
+                uploadToFileSearchStore: params => record('fileSearchStores.uploadToFileSearchStore', params, () => client.fileSearchStores.uploadToFileSearchStore(params)),
+                documents: {
+                    list: params => recordList('fileSearchStores.documents.list', params, () => client.fileSearchStores.documents.list(params)),
+                    delete: params => record('fileSearchStores.documents.delete', params, () => client.fileSearchStores.documents.delete(params)),
+                },
+            },
+            operations: {
+                get: params => record('operations.get', params, () => client.operations.get(params)),
+            },
+        },
+    };
+}
+
+/**
+ * Answers calls from `fixture`. Each recorded interaction is used once: a call
+ * gets the first unused one with the same method and request, so repeated
+ * polls of an operation come back in order. A call whose request was never
+ * recorded throws, unless `options.lenient` is set. `fixture` can be a loader,
+ * called on first use.
+ */
+export function createReplayClient(fixture: GeminiFixture | (() => Promise<GeminiFixture>), options: ReplayOptions = {}): GeminiClient {
+    let loaded: Promise<GeminiFixture> | null = null;
+    const used = new Set<number>();
+
+    const take = async (method: GeminiMethod, params: unknown): Promise<GeminiInteraction> => {
+        loaded ??= typeof fixture === 'function' ? fixture() : Promise.resolve(fixture);
+        const { interactions } = await loaded;
+        const request = JSON.stringify(toRecordable(params));
+        const isUnused = (interaction: GeminiInteraction, index: number) => !used.has(index) && interaction.method === method;
+        let index = interactions.findIndex((interaction, i) => isUnused(interaction, i) && JSON.stringify(interaction.request) === request);
+        if (index === -1 && options.lenient) {
+            index = interactions.findIndex(isUnused);
+            if (index !== -1) console.warn(`Replaying ${method} with a recording of a different request.`);
+        }
+        if (index === -1) throw new Error(`The fixture has no unused ${method} call for ${request}. Record the fixture again if the request changed.`);
+        used.add(index);
+        const interaction = interactions[index];
+        if (interaction.error !== undefined && !interaction.chunks) throw new Error(interaction.error);
+        return interaction;
+    };
+
+    // Restores the class so `response.text` works as it does on live responses.
+    const toResponse = (json: unknown) => Object.assign(new GenerateContentResponse(), json);
+    const reply = async <T>(method: GeminiMethod, params: unknown) => (await take(method, params)).response as T;
+    const replyList = async <T>(method: GeminiMethod, params: unknown) => iterate<T>(((await take(method, params)).items || []) as T[]);
+
+    return {
+        models: {
+            generateContent: async params => toResponse(await reply('models.generateContent', params)),
+            generateContentStream: async params => {
+                const { chunks = [], error } = await take('models.generateContentStream', params);
+                let index = 0;
+                return {
+                    [Symbol.asyncIterator]: () => ({
+                        next: async () => {
+                            params.config?.abortSignal?.throwIfAborted();
+                            if (index < chunks.length) return { value: toResponse(chunks[index++]), done: false };
+                            if (error !== undefined) throw new Error(error);
+                            return { value: undefined, done: true };
+                        },
+                    }),
+                };
+            },
+        },
+        fileSearchStores: {
+            create: params => reply('fileSearchStores.create', params),
+            list: params => replyList('fileSearchStores.list', params),
+            get: params => reply('fileSearchStores.get', params),
+            delete: async params => { await take('fileSearchStores.delete', params); },
+            uploadToFileSearchStore: params => reply('fileSearchStores.uploadToFileSearchStore', params),
+            documents: {
+                list: params => replyList('fileSearchStores.documents.list', params),
+                delete: async params => { await take('fileSearchStores.documents.delete', params); },
+            },
+        },
+        operations: {
+            get: params => reply('operations.get', params),
+        },
+    };
+}
+
+export function parseFixture(json: unknown): GeminiFixture {
+    const fixture = json as GeminiFixture;
+    if (!fixture || !Array.isArray(fixture.interactions) || !fixture.interactions.every(interaction => typeof interaction?.method === 'string')) {
+        throw new Error("This file is not a Gemini fixture.");
+    }
+    if ((fixture.version || 0) > FIXTURE_VERSION) {
+        throw new Error(`Unsupported fixture version ${fixture.version}.`);
+    }
+    return fixture;
+}
+
+export async function loadFixture(url: string): Promise<GeminiFixture> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load the Gemini fixture: ${response.status} ${response.statusText}`);
+    }
+    return parseFixture(await response.json());
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { readFile } from 'node:fs/promises';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryResult } from '../types';
+import { createReplayClient, GeminiFixture, parseFixture } from './geminiFixtures';
+import * as gemini from './geminiService';
+import { DEFAULT_GENERATION_SETTINGS } from './settings';
+
+// Recorded with GEMINI_FIXTURES=record: upload a manual, suggest questions, ask one, delete the library.
+const loadUploadQueryFixture = async () =>
+    parseFixture(JSON.parse(await readFile(new URL('./fixtures/gemini-upload-query.json', import.meta.url), 'utf8')));
+
+const SETTINGS = { ...DEFAULT_GENERATION_SETTINGS, documentName: 'Brewline manual' };
+const QUESTION = 'How often should I descale the coffee maker?';
+
+async function sampleManual(): Promise<File> {
+    const text = await readFile(new URL('../public/samples/brewline-coffee-maker.md', import.meta.url));
+    return new File([text], 'brewline-coffee-maker.md', { type: 'text/markdown' });
+}
+
+describe('geminiService replay', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('replays upload → suggestions → query → sources', async () => {
+        gemini.setClient(createReplayClient(await loadUploadQueryFixture()));
+        vi.useFakeTimers();
+
+        const store = await gemini.createRagStore('Brewline manual');
+        expect(store).toBe('fileSearchStores/brewline-manual-k3v9x2mf7q1d');
+
+        const states: string[] = [];
+        const upload = gemini.uploadToRagStore(store, await sampleManual(), [], { onStateChange: state => states.push(state) });
+        await vi.runAllTimersAsync();
+        await upload;
+        expect(states).toEqual(['uploading', 'indexing']);
+
+        const questions = await gemini.generateExampleQuestions(store, SETTINGS);
+        expect(questions).toHaveLength(4);
+        expect(questions).toContain(QUESTION);
+
+        const updates: QueryResult[] = [];
+        const result = await gemini.fileSearchStream([store], QUESTION, undefined, [], SETTINGS, partial => updates.push(partial));
+        expect(updates).toHaveLength(2);
+        expect(updates[0].groundingChunks).toEqual([]);
+        expect(result.text).toMatch(/^Descale the machine every 40 brew cycles/);
+        expect(result.groundingChunks.map(chunk => chunk.retrievedContext?.title)).toEqual(['brewline-coffee-maker.md', 'brewline-coffee-maker.md']);
+        const encoded = new TextEncoder().encode(result.text);
+        for (const support of result.groundingSupports!) {
+            const { startIndex, endIndex, text } = support.segment!;
+            expect(new TextDecoder().decode(encoded.slice(startIndex, endIndex))).toBe(text);
+            for (const index of support.groundingChunkIndices!) expect(result.groundingChunks[index]).toBeDefined();
+        }
+
+        await gemini.deleteRagStore(store);
+    });
+
+    it('throws when a request was not recorded', async () => {
+        gemini.setClient(createReplayClient(await loadUploadQueryFixture()));
+        await expect(gemini.createRagStore('Another library')).rejects.toThrow('no unused fileSearchStores.create call');
+    });
+
+    it('uses the next call of the same method only when lenient', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        gemini.setClient(createReplayClient(await loadUploadQueryFixture(), { lenient: true }));
+        expect(await gemini.createRagStore('Another library')).toBe('fileSearchStores/brewline-manual-k3v9x2mf7q1d');
+        expect(warn).toHaveBeenCalledOnce();
+        await expect(gemini.createRagStore('Another library')).rejects.toThrow('no unused fileSearchStores.create call');
+    });
+
+    it('hands out repeated calls in recorded order', async () => {
+        const fixture: GeminiFixture = {
+            version: 1,
+            recordedAt: '2025-10-28T09:41:21.000Z',
+            interactions: [
+                { method: 'fileSearchStores.get', request: { name: 'a' }, response: { name: 'a', displayName: 'First' } },
+                { method: 'fileSearchStores.get', request: { name: 'a' }, response: { name: 'a', displayName: 'Second' } },
+            ],
+        };
+        gemini.setClient(createReplayClient(fixture));
+        expect((await gemini.getRagStore('a')).displayName).toBe('First');
+        expect((await gemini.getRagStore('a')).displayName).toBe('Second');
+    });
+});
+
+describe('uploadToRagStore', () => {
+    afterEach(() => vi.useRealTimers());
+
+    it('stops waiting between polls as soon as it is aborted', async () => {
+        gemini.setClient(createReplayClient(await loadUploadQueryFixture()));
+        vi.useFakeTimers();
+        const store = await gemini.createRagStore('Brewline manual');
+        const controller = new AbortController();
+        const states: string[] = [];
+        const upload = gemini.uploadToRagStore(store, await sampleManual(), [], { abortSignal: controller.signal, onStateChange: state => states.push(state) });
+        await vi.waitFor(() => expect(states).toContain('indexing'));
+
+        controller.abort(new Error('Upload cancelled'));
+        await expect(upload).rejects.toThrow('Upload cancelled');
+        expect(vi.getTimerCount()).toBe(0);
+    });
+});
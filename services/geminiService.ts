@@ -2,17 +2,66 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { RagStore, Document, QueryResult, CustomMetadata } from '../types';
+import { GoogleGenAI, GenerateContentResponse, GenerateContentParameters, GenerateContentConfig, Type, CustomMetadata as GenAICustomMetadata, Document as GenAIDocument } from "@google/genai";
+import { RagStore, Document, QueryResult, CustomMetadata, ChatMessage, GroundingChunk, GenerationSettings, UploadOptions } from '../types';
+import { toContents, formatTranscript } from './conversation';
+import { DEFAULT_GENERATION_SETTINGS } from './settings';
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplate } from './promptTemplates';
+import type { SearchProvider } from './searchProvider';
+import { GeminiClient, GeminiFixture, GEMINI_FIXTURE_URL, createRecorder, createReplayClient, loadFixture } from './geminiFixtures';
 
-let ai: GoogleGenAI;
+let ai: GeminiClient;
+let recording: GeminiFixture | null = null;
 
+// Indexing is polled with backoff: quick files finish fast, large ones don't flood the API.
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 10000;
+
+/**
+ * Creates the API client. `GEMINI_FIXTURES=record` records every call for
+ * later replay (see `getRecording`), and `GEMINI_FIXTURES=replay` answers from
+ * the fixture at `GEMINI_FIXTURE_URL` without a network. Replay only accepts
+ * recorded requests unless `GEMINI_FIXTURE_MATCH=lenient`.
+ */
 export function initialize() {
+    recording = null;
+    if (process.env.GEMINI_FIXTURES === 'replay') {
+        ai = createReplayClient(() => loadFixture(GEMINI_FIXTURE_URL), { lenient: process.env.GEMINI_FIXTURE_MATCH === 'lenient' });
+        return;
+    }
     ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    if (process.env.GEMINI_FIXTURES === 'record') {
+        const recorder = createRecorder(ai);
+        ai = recorder.client;
+        recording = recorder.fixture;
+    }
 }
 
-async function delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/** Replaces the API client, e.g. with `createReplayClient(fixture)` in scripts. */
+export function setClient(client: GeminiClient) {
+    ai = client;
+    recording = null;
+}
+
+/** The calls recorded since `initialize()` when `GEMINI_FIXTURES=record`. */
+export function getRecording(): GeminiFixture | null {
+    return recording;
+}
+
+/** Waits `ms`, rejecting with the abort reason as soon as `abortSignal` fires. */
+function delay(ms: number, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) return reject(abortSignal.reason);
+        const timer = setTimeout(() => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        function onAbort() {
+            clearTimeout(timer);
+            reject(abortSignal!.reason);
+        }
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
 }
 
 export async function createRagStore(displayName: string): Promise<string> {
@@ -24,68 +73,334 @@ export async function createRagStore(displayName: string): Promise<string> {
     return ragStore.name;
 }
 
-export async function uploadToRagStore(ragStoreName: string, file: File): Promise<void> {
+function toRagStore(store: { name?: string; displayName?: string; createTime?: string; activeDocumentsCount?: string }): RagStore {
+    return {
+        name: store.name!,
+        displayName: store.displayName || store.name!,
+        createTime: store.createTime,
+        documentCount: store.activeDocumentsCount ? Number(store.activeDocumentsCount) : 0,
+    };
+}
+
+export async function listRagStores(): Promise<RagStore[]> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const pager = await ai.fileSearchStores.list({ config: { pageSize: 20 } });
+    const stores: RagStore[] = [];
+    for await (const store of pager) {
+        if (store.name) {
+            stores.push(toRagStore(store));
+        }
+    }
+    return stores;
+}
+
+export async function getRagStore(ragStoreName: string): Promise<RagStore> {
     if (!ai) throw new Error("Gemini AI not initialized");
-    
+    const store = await ai.fileSearchStores.get({ name: ragStoreName });
+    if (!store.name) {
+        throw new Error("Failed to get RAG store: name is missing.");
+    }
+    return toRagStore(store);
+}
+
+// The SDK wraps string lists in a `{ values }` object; the app keeps them as plain arrays.
+function toApiMetadata(metadata: CustomMetadata[]): GenAICustomMetadata[] {
+    return metadata.map(({ key, stringValue, stringListValue, numericValue }) => ({
+        key,
+        stringValue,
+        numericValue,
+        stringListValue: stringListValue ? { values: stringListValue } : undefined,
+    }));
+}
+
+function fromApiMetadata(metadata: GenAICustomMetadata[] = []): CustomMetadata[] {
+    return metadata.map(({ key, stringValue, stringListValue, numericValue }) => ({
+        key,
+        stringValue,
+        numericValue,
+        stringListValue: stringListValue?.values,
+    }));
+}
+
+function toDocument(doc: GenAIDocument): Document {
+    return {
+        name: doc.name!,
+        displayName: doc.displayName || doc.name!,
+        customMetadata: fromApiMetadata(doc.customMetadata),
+        state: doc.state,
+        sizeBytes: doc.sizeBytes ? Number(doc.sizeBytes) : undefined,
+        mimeType: doc.mimeType,
+        createTime: doc.createTime,
+    };
+}
+
+export async function uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[] = [], options: UploadOptions = {}): Promise<void> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const { abortSignal, onStateChange } = options;
+
+    onStateChange?.('uploading');
     let op = await ai.fileSearchStores.uploadToFileSearchStore({
         fileSearchStoreName: ragStoreName,
-        file: file
+        file: file,
+        config: {
+            displayName: file.name,
+            customMetadata: metadata.length > 0 ? toApiMetadata(metadata) : undefined,
+            abortSignal,
+        }
     });
 
+    onStateChange?.('indexing');
+    let pollDelay = POLL_INITIAL_DELAY_MS;
     while (!op.done) {
-        await delay(3000);
-        op = await ai.operations.get({operation: op});
+        await delay(pollDelay, abortSignal);
+        pollDelay = Math.min(pollDelay * 2, POLL_MAX_DELAY_MS);
+        op = await ai.operations.get({ operation: op, config: { abortSignal } });
+    }
+    if (op.error) {
+        throw new Error(`Indexing ${file.name} failed: ${op.error.message || JSON.stringify(op.error)}`);
     }
 }
 
-export async function fileSearch(ragStoreName: string, query: string): Promise<QueryResult> {
+export async function listDocuments(ragStoreName: string): Promise<Document[]> {
     if (!ai) throw new Error("Gemini AI not initialized");
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: query + "DO NOT ASK THE USER TO READ THE MANUAL, pinpoint the relevant sections in the response itself.",
+    const pager = await ai.fileSearchStores.documents.list({ parent: ragStoreName, config: { pageSize: 20 } });
+    const documents: Document[] = [];
+    for await (const doc of pager) {
+        if (doc.name) {
+            documents.push(toDocument(doc));
+        }
+    }
+    return documents;
+}
+
+export async function deleteDocument(documentName: string): Promise<void> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    await ai.fileSearchStores.documents.delete({
+        name: documentName,
+        config: { force: true },
+    });
+}
+
+/**
+ * Generation parameters for user-facing answers. Helper calls (question
+ * rewriting, example questions) only take the model, so the user's
+ * temperature or system prompt can't break their output format.
+ */
+function generationConfig(settings: GenerationSettings, templateInstruction?: string): GenerateContentConfig {
+    // The chat's own system prompt comes last so it can refine the preset.
+    const systemInstruction = [templateInstruction, settings.systemInstruction]
+        .map(text => text?.trim())
+        .filter(Boolean)
+        .join('\n\n');
+    return {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens,
+        thinkingConfig: settings.thinkingBudget === undefined ? undefined : { thinkingBudget: settings.thinkingBudget },
+        systemInstruction: systemInstruction || undefined,
+    };
+}
+
+/** Fills the prompt template's variables for a document question. */
+function templatePrompt(settings: GenerationSettings, query: string): { systemInstruction: string; query: string } {
+    const template = settings.promptTemplate || DEFAULT_PROMPT_TEMPLATE;
+    const variables = { query, documentName: settings.documentName || 'your documents' };
+    return {
+        systemInstruction: renderTemplate(template.systemInstruction, variables),
+        query: renderTemplate(template.queryTemplate, variables),
+    };
+}
+
+function questionsPrompt(settings: GenerationSettings): string {
+    const template = settings.promptTemplate || DEFAULT_PROMPT_TEMPLATE;
+    return renderTemplate(template.questionsPrompt, { documentName: settings.documentName || 'your documents' });
+}
+
+export async function rewriteStandaloneQuestion(history: ChatMessage[], question: string, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<string> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    if (history.length === 0) return question;
+    try {
+        const response = await ai.models.generateContent({
+            model: settings.model,
+            contents: `Given the conversation below and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation. Resolve pronouns and implicit references using the conversation. Keep the original language. If the question is already standalone, return it unchanged. Reply with the rewritten question only.\n\nConversation:\n${formatTranscript(history)}\n\nFollow-up question: ${question}`,
+        });
+        return response.text?.trim() || question;
+    } catch (error) {
+        console.error("Failed to rewrite follow-up question:", error);
+        return question;
+    }
+}
+
+function fileSearchRequest(ragStoreNames: string[], query: string, metadataFilter: string | undefined, history: ChatMessage[], settings: GenerationSettings): GenerateContentParameters {
+    const prompt = templatePrompt(settings, query);
+    return {
+        model: settings.model,
+        contents: toContents(history, prompt.query),
         config: {
+            ...generationConfig(settings, prompt.systemInstruction),
             tools: [
                     {
                         fileSearch: {
-                            fileSearchStoreNames: [ragStoreName],
+                            fileSearchStoreNames: ragStoreNames,
+                            metadataFilter,
                         }
                     }
                 ]
         }
-    });
+    };
+}
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+function googleSearchRequest(query: string, history: ChatMessage[], settings: GenerationSettings): GenerateContentParameters {
     return {
-        text: response.text,
-        groundingChunks: groundingChunks,
+        model: settings.model,
+        contents: toContents(history, query),
+        config: {
+            ...generationConfig(settings),
+            tools: [{googleSearch: {}}],
+        }
     };
 }
 
+function describeExcerpt(chunk: GroundingChunk, index: number): string {
+    const { title, pageNumber, text } = chunk.retrievedContext || {};
+    const source = [title, pageNumber ? `page ${pageNumber}` : null].filter(Boolean).join(', ');
+    return `[${index + 1}]${source ? ` (${source})` : ''}\n${text || ''}`;
+}
+
+// Used when retrieval happens outside the API: only the question and the retrieved excerpts are sent.
+function excerptsRequest(query: string, excerpts: GroundingChunk[], history: ChatMessage[], settings: GenerationSettings): GenerateContentParameters {
+    const prompt = templatePrompt(settings, query);
+    return {
+        model: settings.model,
+        contents: toContents(history, `Answer the question using only the numbered excerpts below. After each sentence that relies on an excerpt, cite it as [n], e.g. [1] or [1, 3]. If the excerpts do not contain the answer, say so.\n\nExcerpts:\n\n${excerpts.map(describeExcerpt).join('\n\n')}\n\nQuestion: ${prompt.query}`),
+        config: generationConfig(settings, prompt.systemInstruction),
+    };
+}
 
-export async function googleSearch(query: string): Promise<QueryResult> {
+/**
+ * Streams a response, reporting the accumulated text and the latest grounding
+ * chunks after every chunk. When `abortSignal` fires, whatever has arrived so
+ * far is returned instead of throwing.
+ */
+async function streamQuery(
+    request: GenerateContentParameters,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
     if (!ai) throw new Error("Gemini AI not initialized");
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: query,
-        config: {
-            tools: [{googleSearch: {}}],
+    const result: QueryResult = { text: '', groundingChunks: [] };
+
+    try {
+        const stream = await ai.models.generateContentStream({
+            ...request,
+            config: { ...request.config, abortSignal },
+        });
+        for await (const chunk of stream) {
+            result.text += chunk.text || '';
+            const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+            if (groundingMetadata?.groundingChunks && groundingMetadata.groundingChunks.length > 0) {
+                result.groundingChunks = groundingMetadata.groundingChunks;
+            }
+            if (groundingMetadata?.groundingSupports && groundingMetadata.groundingSupports.length > 0) {
+                result.groundingSupports = groundingMetadata.groundingSupports;
+            }
+            onUpdate({ ...result });
         }
-    });
+    } catch (error) {
+        if (abortSignal?.aborted) {
+            return result;
+        }
+        throw error;
+    }
+    return result;
+}
+
+export async function fileSearch(ragStoreNames: string[], query: string, metadataFilter?: string, history: ChatMessage[] = [], settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<QueryResult> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const response: GenerateContentResponse = await ai.models.generateContent(
+        fileSearchRequest(ragStoreNames, query, metadataFilter, history, settings)
+    );
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
     return {
         text: response.text,
-        groundingChunks: groundingChunks,
+        groundingChunks: groundingMetadata?.groundingChunks || [],
+        groundingSupports: groundingMetadata?.groundingSupports || [],
     };
 }
 
+export async function fileSearchStream(
+    ragStoreNames: string[],
+    query: string,
+    metadataFilter: string | undefined,
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    return streamQuery(fileSearchRequest(ragStoreNames, query, metadataFilter, history, settings), onUpdate, abortSignal);
+}
+
+
+export async function answerFromExcerptsStream(
+    query: string,
+    excerpts: GroundingChunk[],
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    return streamQuery(excerptsRequest(query, excerpts, history, settings), onUpdate, abortSignal);
+}
 
-export async function generateExampleQuestions(ragStoreName: string): Promise<string[]> {
+/** Suggests questions from document excerpts, for libraries that are not stored with the API. */
+export async function generateQuestionsFromExcerpts(excerpts: string[], settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<string[]> {
     if (!ai) throw new Error("Gemini AI not initialized");
     try {
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: "You are provided some user manuals for some products. Figure out for what product each manual is for, based on the cover page contents. DO NOT GUESS OR HALLUCNIATE THE PRODUCT. Then, for each product, generate 4 short and practical example questions a user might ask about it in English. Return the questions as a JSON array of objects. Each object should have a 'product' key with the product name as a string, and a 'questions' key with an array of 4 question strings. For example: ```json[{\"product\": \"Product A\", \"questions\": [\"q1\", \"q2\"]}, {\"product\": \"Product B\", \"questions\": [\"q3\", \"q4\"]}]```",
+            model: settings.model,
+            contents: `Below are the opening excerpts of some documents. ${questionsPrompt(settings)} Only ask questions the documents can answer. DO NOT GUESS OR HALLUCINATE topics that are not in the excerpts.\n\n${excerpts.join('\n\n---\n\n')}`,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+        });
+        const parsed = JSON.parse(response.text?.trim() || '[]');
+        return Array.isArray(parsed) ? parsed.filter(q => typeof q === 'string') : [];
+    } catch (error) {
+        console.error("Failed to generate example questions from excerpts:", error);
+        return [];
+    }
+}
+
+export async function googleSearch(query: string, history: ChatMessage[] = [], settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<QueryResult> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const response: GenerateContentResponse = await ai.models.generateContent(googleSearchRequest(query, history, settings));
+
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    return {
+        text: response.text,
+        groundingChunks: groundingMetadata?.groundingChunks || [],
+        groundingSupports: groundingMetadata?.groundingSupports || [],
+    };
+}
+
+export async function googleSearchStream(
+    query: string,
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    return streamQuery(googleSearchRequest(query, history, settings), onUpdate, abortSignal);
+}
+
+
+export async function generateExampleQuestions(ragStoreName: string, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<string[]> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    try {
+        const response = await ai.models.generateContent({
+            model: settings.model,
+            contents: `${questionsPrompt(settings)} Return the questions as a JSON array of strings. For example: \`\`\`json["q1", "q2", "q3", "q4"]\`\`\``,
             config: {
                 tools: [
                     {
@@ -154,4 +469,23 @@ export async function deleteRagStore(ragStoreName: string): Promise<void> {
         name: ragStoreName,
         config: { force: true },
     });
-}
\ No newline at end of file
+}
+
+export const geminiProvider: SearchProvider = {
+    id: 'gemini',
+    initialize,
+    createRagStore,
+    listRagStores,
+    getRagStore,
+    deleteRagStore,
+    uploadToRagStore,
+    listDocuments,
+    deleteDocument,
+    rewriteStandaloneQuestion,
+    fileSearch,
+    fileSearchStream,
+    webSearch: googleSearch,
+    webSearchStream: googleSearchStream,
+    generateExampleQuestions,
+    generateWebSearchQuestions: generateGoogleSearchQuestions,
+};
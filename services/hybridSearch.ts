@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, GenerationSettings, GroundingSupport, QueryResult } from '../types';
+import type { SearchProvider } from './searchProvider';
+
+/**
+ * Hybrid answers run File Search and Google Search side by side (the API does
+ * not allow both tools in one request) and fuse the two answers into one
+ * message with a section per source type. Grounding chunks are concatenated,
+ * document chunks first, and the web answer's supports are shifted to match.
+ */
+
+export const DOCUMENTS_HEADING = '#### From your documents';
+export const WEB_HEADING = '#### From the web';
+
+function byteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+function shiftSupports(supports: GroundingSupport[] = [], byteOffset: number, indexOffset: number): GroundingSupport[] {
+    return supports.map(support => ({
+        ...support,
+        segment: support.segment && {
+            ...support.segment,
+            startIndex: (support.segment.startIndex || 0) + byteOffset,
+            endIndex: support.segment.endIndex === undefined ? undefined : support.segment.endIndex + byteOffset,
+        },
+        groundingChunkIndices: support.groundingChunkIndices?.map(index => index + indexOffset),
+    }));
+}
+
+type SectionResult = QueryResult | { error: string } | null;
+
+function sectionText(result: SectionResult, failure: string): string {
+    if (!result) return '';
+    return 'error' in result ? `_${failure}: ${result.error}_` : result.text;
+}
+
+/** Combines a document answer and a web answer; either may still be missing while streaming. */
+export function fuseResults(documentResult: SectionResult, webResult: SectionResult): QueryResult {
+    let text = '';
+    const groundingChunks: QueryResult['groundingChunks'] = [];
+    const groundingSupports: GroundingSupport[] = [];
+
+    const addSection = (heading: string, result: SectionResult, failure: string) => {
+        const body = sectionText(result, failure);
+        if (!body) return;
+        text += `${text ? '\n\n' : ''}${heading}\n\n`;
+        if (result && !('error' in result)) {
+            groundingSupports.push(...shiftSupports(result.groundingSupports, byteLength(text), groundingChunks.length));
+            groundingChunks.push(...result.groundingChunks);
+        }
+        text += body;
+    };
+
+    addSection(DOCUMENTS_HEADING, documentResult, "Document search failed");
+    addSection(WEB_HEADING, webResult, "Web search failed");
+    return { text, groundingChunks, groundingSupports };
+}
+
+export async function hybridSearchStream(
+    provider: SearchProvider,
+    ragStoreNames: string[],
+    query: string,
+    metadataFilter: string | undefined,
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    let documentResult: SectionResult = null;
+    let webResult: SectionResult = null;
+    const report = () => onUpdate(fuseResults(documentResult, webResult));
+
+    const [documents, web] = await Promise.allSettled([
+        provider.fileSearchStream(ragStoreNames, query, metadataFilter, history, settings, partial => {
+            documentResult = partial;
+            report();
+        }, abortSignal),
+        provider.webSearchStream(query, history, settings, partial => {
+            webResult = partial;
+            report();
+        }, abortSignal),
+    ]);
+
+    if (documents.status === 'rejected' && web.status === 'rejected') {
+        throw documents.reason;
+    }
+    const describe = (reason: unknown) => ({ error: reason instanceof Error ? reason.message : String(reason) });
+    documentResult = documents.status === 'fulfilled' ? documents.value : describe(documents.reason);
+    webResult = web.status === 'fulfilled' ? web.value : describe(web.reason);
+    return fuseResults(documentResult, webResult);
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'mnemomind';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const LOCAL_STORES_STORE = 'localStores';
+export const LOCAL_DOCUMENTS_STORE = 'localDocuments';
+export const LOCAL_CHUNKS_STORE = 'localChunks';
+export const FEEDBACK_STORE = 'feedback';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+    if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('updatedAt', 'updatedAt');
+    }
+    // Added in version 2 for the local RAG provider.
+    if (!db.objectStoreNames.contains(LOCAL_STORES_STORE)) {
+        db.createObjectStore(LOCAL_STORES_STORE, { keyPath: 'name' });
+    }
+    if (!db.objectStoreNames.contains(LOCAL_DOCUMENTS_STORE)) {
+        const documents = db.createObjectStore(LOCAL_DOCUMENTS_STORE, { keyPath: 'name' });
+        documents.createIndex('storeName', 'storeName');
+    }
+    if (!db.objectStoreNames.contains(LOCAL_CHUNKS_STORE)) {
+        const chunks = db.createObjectStore(LOCAL_CHUNKS_STORE, { keyPath: 'id' });
+        chunks.createIndex('storeName', 'storeName');
+        chunks.createIndex('documentName', 'documentName');
+    }
+    // Added in version 3 for answer feedback.
+    if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+        const feedback = db.createObjectStore(FEEDBACK_STORE, { keyPath: 'id' });
+        feedback.createIndex('sessionId', 'sessionId');
+    }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser"));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let a newer tab upgrade the schema instead of blocking it.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs `fn` against a single object store inside its own transaction and
+ * resolves once the transaction has committed.
+ */
+export async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await fn(transaction.objectStore(storeName));
+    await done;
+    return result;
+}
+
+/** Deletes every record whose `indexName` key equals `value`. */
+export function deleteByIndex(storeName: string, indexName: string, value: IDBValidKey): Promise<void> {
+    return withStore(storeName, 'readwrite', store => new Promise<void>((resolve, reject) => {
+        const request = store.index(indexName).openKeyCursor(IDBKeyRange.only(value));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    }));
+}
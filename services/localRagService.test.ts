@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHashingEmbedder } from './embeddings';
+import { readLocalRagEnv } from './localRagService';
+
+describe('readLocalRagEnv', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('keeps the defaults and the hashing embedder when nothing is set', () => {
+        const config = readLocalRagEnv({ LOCAL_RAG_TOP_K: '' });
+        expect(config.options).toEqual({});
+        expect(config.embedder?.id).toBe(createHashingEmbedder().id);
+    });
+
+    it('ranks with BM25 and stores no vectors when asked to', () => {
+        expect(readLocalRagEnv({ LOCAL_RAG_EMBEDDER: 'bm25' })).toEqual({ options: {}, embedder: null });
+    });
+
+    it('reads chunking, top-k and the hashing embedder', () => {
+        const config = readLocalRagEnv({
+            LOCAL_RAG_CHUNK_SIZE: '600',
+            LOCAL_RAG_CHUNK_OVERLAP: '0',
+            LOCAL_RAG_TOP_K: ' 8 ',
+            LOCAL_RAG_EMBEDDER: 'Hashing',
+        });
+        expect(config.options).toEqual({ chunkSize: 600, chunkOverlap: 0, topK: 8 });
+        expect(config.embedder?.id).toMatch(/^hashing-/);
+    });
+
+    it('ignores invalid values with a warning', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const config = readLocalRagEnv({ LOCAL_RAG_CHUNK_SIZE: '0', LOCAL_RAG_TOP_K: '2.5', LOCAL_RAG_EMBEDDER: 'openai' });
+        expect(config.options).toEqual({});
+        expect(config.embedder?.id).toBe(createHashingEmbedder().id);
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,323 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, QueryResult, CustomMetadata, ChatMessage, GroundingChunk, GenerationSettings, UploadOptions } from '../types';
+import { LOCAL_STORES_STORE, LOCAL_DOCUMENTS_STORE, LOCAL_CHUNKS_STORE, withStore, promisifyRequest, deleteByIndex } from './localDb';
+import { extractText } from './textExtraction';
+import { chunkPages, ChunkingOptions, DEFAULT_CHUNKING_OPTIONS } from './chunking';
+import { Embedder, getEmbedder, setEmbedder, createHashingEmbedder, LEXICAL_RETRIEVER_ID, termFrequencies, bm25Scores, cosineSimilarity } from './embeddings';
+import { matchesMetadataFilter } from './metadataFilter';
+import { extractNumberedCitations } from './citations';
+import { DEFAULT_GENERATION_SETTINGS } from './settings';
+import * as geminiService from './geminiService';
+import type { SearchProvider } from './searchProvider';
+
+/**
+ * Keeps libraries entirely in the browser: files are extracted, chunked,
+ * embedded and stored in IndexedDB, and retrieval runs locally. Documents are
+ * never uploaded; Gemini only receives the question and the top-k excerpts to
+ * write the answer. Web search still goes to the Gemini provider.
+ */
+
+export interface LocalRagOptions extends ChunkingOptions {
+    /** Number of chunks passed to the model per question. */
+    topK: number;
+}
+
+interface LocalStoreRecord {
+    name: string;
+    displayName: string;
+    createTime: string;
+    /** Embedder used for this library's vectors, or `LEXICAL_RETRIEVER_ID`. */
+    retrieverId: string;
+}
+
+interface LocalDocumentRecord extends Document {
+    storeName: string;
+}
+
+interface LocalChunkRecord {
+    id: string;
+    storeName: string;
+    documentName: string;
+    title: string;
+    text: string;
+    pageNumber?: number;
+    terms: Record<string, number>;
+    length: number;
+    vector?: number[];
+}
+
+const MAX_QUESTION_EXCERPTS = 10;
+
+let options: LocalRagOptions = { ...DEFAULT_CHUNKING_OPTIONS, topK: 5 };
+
+export function setLocalRagOptions(next: Partial<LocalRagOptions>) {
+    options = { ...options, ...next };
+}
+
+export function getLocalRagOptions(): LocalRagOptions {
+    return options;
+}
+
+export interface LocalRagEnv {
+    LOCAL_RAG_CHUNK_SIZE?: string;
+    LOCAL_RAG_CHUNK_OVERLAP?: string;
+    LOCAL_RAG_TOP_K?: string;
+    LOCAL_RAG_EMBEDDER?: string;
+}
+
+/**
+ * Reads chunking, top-k and the embedder from env vars. Unset values keep
+ * their defaults; invalid ones are ignored with a warning. `LOCAL_RAG_EMBEDDER`
+ * is `hashing` (the default), which stores a vector per chunk for similarity
+ * search, or `bm25` for keyword ranking without vectors.
+ */
+export function readLocalRagEnv(env: LocalRagEnv): { options: Partial<LocalRagOptions>; embedder: Embedder | null } {
+    const result: { options: Partial<LocalRagOptions>; embedder: Embedder | null } = { options: {}, embedder: createHashingEmbedder() };
+    const numbers: [keyof LocalRagEnv, keyof LocalRagOptions, number][] = [
+        ['LOCAL_RAG_CHUNK_SIZE', 'chunkSize', 1],
+        ['LOCAL_RAG_CHUNK_OVERLAP', 'chunkOverlap', 0],
+        ['LOCAL_RAG_TOP_K', 'topK', 1],
+    ];
+    for (const [name, key, minimum] of numbers) {
+        const raw = env[name]?.trim();
+        if (!raw) continue;
+        const value = Number(raw);
+        if (Number.isInteger(value) && value >= minimum) {
+            result.options[key] = value;
+        } else {
+            console.warn(`Ignoring ${name}="${raw}": expected a whole number of at least ${minimum}.`);
+        }
+    }
+
+    const embedder = env.LOCAL_RAG_EMBEDDER?.trim().toLowerCase();
+    if (embedder === LEXICAL_RETRIEVER_ID) {
+        result.embedder = null;
+    } else if (embedder && embedder !== 'hashing') {
+        console.warn(`Ignoring LOCAL_RAG_EMBEDDER="${embedder}": expected "hashing" or "${LEXICAL_RETRIEVER_ID}".`);
+    }
+    return result;
+}
+
+async function getStoreRecord(ragStoreName: string): Promise<LocalStoreRecord> {
+    const record = await withStore(LOCAL_STORES_STORE, 'readonly', store =>
+        promisifyRequest<LocalStoreRecord | undefined>(store.get(ragStoreName)));
+    if (!record) throw new Error(`Local library ${ragStoreName} not found.`);
+    return record;
+}
+
+async function getDocumentRecords(ragStoreName: string): Promise<LocalDocumentRecord[]> {
+    return withStore(LOCAL_DOCUMENTS_STORE, 'readonly', store =>
+        promisifyRequest<LocalDocumentRecord[]>(store.index('storeName').getAll(ragStoreName)));
+}
+
+async function getChunkRecords(ragStoreName: string): Promise<LocalChunkRecord[]> {
+    return withStore(LOCAL_CHUNKS_STORE, 'readonly', store =>
+        promisifyRequest<LocalChunkRecord[]>(store.index('storeName').getAll(ragStoreName)));
+}
+
+function toDocument({ storeName, ...document }: LocalDocumentRecord): Document {
+    return document;
+}
+
+export function initialize() {
+    geminiService.initialize();
+    const config = readLocalRagEnv({
+        LOCAL_RAG_CHUNK_SIZE: process.env.LOCAL_RAG_CHUNK_SIZE,
+        LOCAL_RAG_CHUNK_OVERLAP: process.env.LOCAL_RAG_CHUNK_OVERLAP,
+        LOCAL_RAG_TOP_K: process.env.LOCAL_RAG_TOP_K,
+        LOCAL_RAG_EMBEDDER: process.env.LOCAL_RAG_EMBEDDER,
+    });
+    setLocalRagOptions(config.options);
+    setEmbedder(config.embedder);
+}
+
+export async function createRagStore(displayName: string): Promise<string> {
+    const record: LocalStoreRecord = {
+        name: `localStores/${crypto.randomUUID()}`,
+        displayName,
+        createTime: new Date().toISOString(),
+        retrieverId: getEmbedder()?.id || LEXICAL_RETRIEVER_ID,
+    };
+    await withStore(LOCAL_STORES_STORE, 'readwrite', store => promisifyRequest(store.put(record)));
+    return record.name;
+}
+
+async function toRagStore(record: LocalStoreRecord): Promise<RagStore> {
+    const documents = await getDocumentRecords(record.name);
+    return { name: record.name, displayName: record.displayName, createTime: record.createTime, documentCount: documents.length };
+}
+
+export async function listRagStores(): Promise<RagStore[]> {
+    const records = await withStore(LOCAL_STORES_STORE, 'readonly', store =>
+        promisifyRequest<LocalStoreRecord[]>(store.getAll()));
+    return Promise.all(records.map(toRagStore));
+}
+
+export async function getRagStore(ragStoreName: string): Promise<RagStore> {
+    return toRagStore(await getStoreRecord(ragStoreName));
+}
+
+export async function deleteRagStore(ragStoreName: string): Promise<void> {
+    await deleteByIndex(LOCAL_CHUNKS_STORE, 'storeName', ragStoreName);
+    await deleteByIndex(LOCAL_DOCUMENTS_STORE, 'storeName', ragStoreName);
+    await withStore(LOCAL_STORES_STORE, 'readwrite', store => promisifyRequest(store.delete(ragStoreName)));
+}
+
+export async function uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[] = [], uploadOptions: UploadOptions = {}): Promise<void> {
+    const { abortSignal, onStateChange } = uploadOptions;
+    const storeRecord = await getStoreRecord(ragStoreName);
+    onStateChange?.('uploading');
+    const pages = await extractText(file);
+    abortSignal?.throwIfAborted();
+    onStateChange?.('indexing');
+    const chunks = chunkPages(pages, options);
+    if (chunks.length === 0) {
+        throw new Error(`No text could be extracted from ${file.name}.`);
+    }
+
+    // Vectors are only computed with the embedder the library was created with.
+    const embedder = getEmbedder();
+    const vectors = embedder && embedder.id === storeRecord.retrieverId
+        ? await embedder.embed(chunks.map(chunk => chunk.text))
+        : null;
+    // Nothing has been written yet, so a cancelled upload leaves no trace.
+    abortSignal?.throwIfAborted();
+
+    const document: LocalDocumentRecord = {
+        name: `${ragStoreName}/documents/${crypto.randomUUID()}`,
+        storeName: ragStoreName,
+        displayName: file.name,
+        customMetadata: metadata,
+        state: 'STATE_ACTIVE',
+        sizeBytes: file.size,
+        mimeType: file.type || undefined,
+        createTime: new Date().toISOString(),
+    };
+    const records: LocalChunkRecord[] = chunks.map((chunk, index) => {
+        const terms = termFrequencies(chunk.text);
+        return {
+            id: `${document.name}/chunks/${index}`,
+            storeName: ragStoreName,
+            documentName: document.name,
+            title: file.name,
+            text: chunk.text,
+            pageNumber: chunk.pageNumber,
+            terms,
+            length: Object.values(terms).reduce((sum, count) => sum + count, 0),
+            vector: vectors?.[index],
+        };
+    });
+
+    await withStore(LOCAL_CHUNKS_STORE, 'readwrite', store => Promise.all(records.map(record => promisifyRequest(store.put(record)))));
+    await withStore(LOCAL_DOCUMENTS_STORE, 'readwrite', store => promisifyRequest(store.put(document)));
+}
+
+export async function listDocuments(ragStoreName: string): Promise<Document[]> {
+    return (await getDocumentRecords(ragStoreName)).map(toDocument);
+}
+
+export async function deleteDocument(documentName: string): Promise<void> {
+    await deleteByIndex(LOCAL_CHUNKS_STORE, 'documentName', documentName);
+    await withStore(LOCAL_DOCUMENTS_STORE, 'readwrite', store => promisifyRequest(store.delete(documentName)));
+}
+
+/**
+ * Returns the top-k chunks for `query` across `ragStoreNames` as grounding
+ * chunks. The libraries are ranked as one pool: by cosine similarity when all
+ * of them were indexed with the current embedder, otherwise by BM25.
+ */
+export async function retrieveChunks(ragStoreNames: string[], query: string, metadataFilter?: string): Promise<GroundingChunk[]> {
+    const storeRecords = await Promise.all(ragStoreNames.map(getStoreRecord));
+    const chunks: LocalChunkRecord[] = [];
+    for (const ragStoreName of ragStoreNames) {
+        const allowed = new Set((await getDocumentRecords(ragStoreName))
+            .filter(doc => matchesMetadataFilter(doc.customMetadata, metadataFilter))
+            .map(doc => doc.name));
+        chunks.push(...(await getChunkRecords(ragStoreName)).filter(chunk => allowed.has(chunk.documentName)));
+    }
+    if (chunks.length === 0) return [];
+
+    const embedder = getEmbedder();
+    let scores: number[];
+    if (embedder && storeRecords.every(record => record.retrieverId === embedder.id) && chunks.every(chunk => chunk.vector)) {
+        const [queryVector] = await embedder.embed([query]);
+        scores = chunks.map(chunk => cosineSimilarity(queryVector, chunk.vector!));
+    } else {
+        scores = bm25Scores(query, chunks);
+    }
+
+    return chunks
+        .map((chunk, index) => ({ chunk, score: scores[index] }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.topK)
+        .map(({ chunk }) => ({
+            retrievedContext: {
+                text: chunk.text,
+                title: chunk.title,
+                pageNumber: chunk.pageNumber,
+                fileSearchStore: chunk.storeName,
+            },
+        }));
+}
+
+export async function fileSearchStream(
+    ragStoreNames: string[],
+    query: string,
+    metadataFilter: string | undefined,
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    const groundingChunks = await retrieveChunks(ragStoreNames, query, metadataFilter);
+    if (groundingChunks.length === 0) {
+        const result: QueryResult = { text: "I couldn't find anything relevant to that in this library.", groundingChunks: [], groundingSupports: [] };
+        onUpdate(result);
+        return result;
+    }
+
+    // Sources are known before generation starts, so they are attached to every update.
+    const withCitations = (partial: QueryResult): QueryResult => ({
+        ...extractNumberedCitations(partial.text, groundingChunks.length),
+        groundingChunks,
+    });
+    const result = await geminiService.answerFromExcerptsStream(query, groundingChunks, history, settings,
+        partial => onUpdate(withCitations(partial)), abortSignal);
+    return withCitations(result);
+}
+
+export async function fileSearch(ragStoreNames: string[], query: string, metadataFilter?: string, history: ChatMessage[] = [], settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<QueryResult> {
+    return fileSearchStream(ragStoreNames, query, metadataFilter, history, settings, () => {});
+}
+
+export async function generateExampleQuestions(ragStoreName: string, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): Promise<string[]> {
+    // The first chunk of each document usually carries its title and scope.
+    const openings = (await getChunkRecords(ragStoreName))
+        .filter(chunk => chunk.id.endsWith('/chunks/0'))
+        .slice(0, MAX_QUESTION_EXCERPTS)
+        .map(chunk => `${chunk.title}:\n${chunk.text.slice(0, 500)}`);
+    return openings.length > 0 ? geminiService.generateQuestionsFromExcerpts(openings, settings) : [];
+}
+
+export const localProvider: SearchProvider = {
+    id: 'local',
+    initialize,
+    createRagStore,
+    listRagStores,
+    getRagStore,
+    deleteRagStore,
+    uploadToRagStore,
+    listDocuments,
+    deleteDocument,
+    rewriteStandaloneQuestion: geminiService.rewriteStandaloneQuestion,
+    fileSearch,
+    fileSearchStream,
+    webSearch: geminiService.googleSearch,
+    webSearchStream: geminiService.googleSearchStream,
+    generateExampleQuestions,
+    generateWebSearchQuestions: geminiService.generateGoogleSearchQuestions,
+};
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, renderMarkdown } from './markdown';
+
+describe('escaping', () => {
+    it('escapes raw HTML', () => {
+        const html = renderMarkdown('<img src=x onerror="alert(1)">');
+        expect(html).not.toContain('<img');
+        expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    });
+
+    it('drops links with unsafe schemes but keeps their label', () => {
+        const html = renderMarkdown('[click](javascript:alert(1)) and [data](data:text/html,x)');
+        expect(html).not.toContain('href');
+        expect(html).toContain('click and data');
+    });
+
+    it('keeps quotes in link titles from breaking out of the attribute', () => {
+        const html = renderMarkdown('[docs](https://example.com "a" onmouseover="alert(1)")');
+        expect(html).toContain(' title="a&quot; onmouseover=&quot;alert(1)" target="_blank"');
+    });
+
+    it('renders a safe link with a title', () => {
+        expect(renderMarkdown('[docs](https://example.com/a?b=1&c=2 "Read me")')).toContain(
+            '<a href="https://example.com/a?b=1&amp;c=2" title="Read me" target="_blank" rel="noopener noreferrer"');
+    });
+
+    it('keeps quotes in bare URLs out of the href', () => {
+        const html = renderMarkdown('See https://example.com/"onmouseover="alert(1) now');
+        expect(html).toContain('<a href="https://example.com/"');
+        expect(html).not.toMatch(/ onmouseover=/);
+    });
+
+    it('stops bare URLs at trailing punctuation', () => {
+        expect(renderMarkdown('Visit https://example.com/docs.')).toContain('<a href="https://example.com/docs" ');
+    });
+
+    it('ignores placeholder characters in the input', () => {
+        const html = renderMarkdown('`code` then \uE1000\uE101 and \uE10099\uE101');
+        expect(html.match(/<code/g)).toHaveLength(1);
+        expect(html).not.toContain('undefined');
+        expect(html).not.toMatch(/[\uE100\uE101]/);
+    });
+
+    it('escapes all HTML-significant characters', () => {
+        expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+    });
+});
+
+describe('tables', () => {
+    it('renders headers, rows and alignment', () => {
+        const html = renderMarkdown('| Name | Size |\n|:--|--:|\n| a | 1 |\n| b | 2 |');
+        expect(html).toContain('<th style="text-align:left">Name</th><th style="text-align:right">Size</th>');
+        expect(html).toContain('<tr><td style="text-align:left">a</td><td style="text-align:right">1</td></tr>');
+        expect(html.match(/<tr>/g)).toHaveLength(3);
+    });
+
+    it('keeps escaped pipes inside cells and fills missing cells', () => {
+        const html = renderMarkdown('| Expr | Note |\n|---|---|\n| a \\| b |');
+        expect(html).toContain('<td>a | b</td><td></td>');
+    });
+
+    it('escapes HTML in cells', () => {
+        expect(renderMarkdown('| x |\n|---|\n| <b>y</b> |')).toContain('<td>&lt;b&gt;y&lt;/b&gt;</td>');
+    });
+});
+
+describe('lists', () => {
+    it('nests indented lists inside their parent item', () => {
+        const html = renderMarkdown('- one\n  - one.a\n  - one.b\n- two');
+        expect(html).toBe('<ul class="list-disc my-2 pl-6 space-y-1"><li>one<ul class="list-disc my-2 pl-6 space-y-1"><li>one.a</li><li>one.b</li></ul></li><li>two</li></ul>');
+    });
+
+    it('nests an ordered list in a bullet list and keeps the start number', () => {
+        const html = renderMarkdown('- steps\n   3. heat\n   4. pour');
+        expect(html).toContain('<li>steps<ol class="list-decimal my-2 pl-6 space-y-1" start="3"><li>heat</li><li>pour</li></ol></li>');
+    });
+
+    it('renders task items as disabled checkboxes', () => {
+        const html = renderMarkdown('- [x] done\n- [ ] todo');
+        expect(html).toContain('<input type="checkbox" disabled checked');
+        expect(html.match(/type="checkbox"/g)).toHaveLength(2);
+    });
+});
+
+describe('code', () => {
+    it('escapes fenced code and leaves markdown inside it alone', () => {
+        const html = renderMarkdown('```html\n<b>**not bold**</b>\n```', { copyButtons: false });
+        expect(html).toBe('<div class="code-block my-2"><pre><code class="language-html">&lt;b&gt;**not bold**&lt;/b&gt;</code></pre></div>');
+    });
+
+    it('adds a copy button by default', () => {
+        expect(renderMarkdown('```\nx\n```')).toContain('data-copy-code');
+    });
+
+    it('runs an unclosed fence to the end of the text', () => {
+        expect(renderMarkdown('```\nline 1\nline 2', { copyButtons: false })).toContain('<code>line 1\nline 2</code>');
+    });
+
+    it('renders inline code without emphasis or links inside', () => {
+        const html = renderMarkdown('Use `*a* [b](https://x.io) <i>` here');
+        expect(html).toContain('<code class="bg-gem-mist/50 px-1 py-0.5 rounded-sm font-mono text-sm">*a* [b](https://x.io) &lt;i&gt;</code>');
+        expect(html).not.toContain('<em>');
+        expect(html).not.toContain('<a ');
+    });
+
+    it('renders inline code inside a link label', () => {
+        expect(renderMarkdown('[`npm test`](https://example.com)')).toMatch(/<a [^>]*><code[^>]*>npm test<\/code><\/a>/);
+    });
+});
@@ -0,0 +1,323 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A small, dependency-free markdown renderer for model output. All text is
+ * HTML-escaped before any markup is generated, so the result is safe to pass
+ * to `dangerouslySetInnerHTML`. Supports headings, paragraphs, emphasis,
+ * inline and fenced code, links, nested and task lists, GFM tables,
+ * blockquotes and horizontal rules.
+ */
+
+export interface MarkdownOptions {
+    /** Adds a copy button to fenced code blocks (needs a click handler in the host). */
+    copyButtons?: boolean;
+}
+
+// Private-use characters delimit inline placeholders. Citation markers use
+// U+E000/U+E001, so placeholders use a different pair.
+const PLACEHOLDER_START = '\uE100';
+const PLACEHOLDER_END = '\uE101';
+const PLACEHOLDER_PATTERN = /\uE100(\d+)\uE101/g;
+const PLACEHOLDER_CHARS = /[\uE100\uE101]/g;
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([\w#+.-]*)?.*$/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const HR_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL_PATTERN = /^(https?:|mailto:|#|\/(?!\/))/i;
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function indentWidth(line: string): number {
+    const leading = line.match(/^\s*/)![0];
+    return leading.replace(/\t/g, '    ').length;
+}
+
+function isBlank(line: string): boolean {
+    return line.trim() === '';
+}
+
+// --- Inline ---------------------------------------------------------------
+
+function renderInline(text: string): string {
+    const placeholders: string[] = [];
+    const hold = (html: string) => {
+        placeholders.push(html);
+        return `${PLACEHOLDER_START}${placeholders.length - 1}${PLACEHOLDER_END}`;
+    };
+
+    // Code spans first so nothing inside them is treated as markup.
+    let html = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_m, _ticks, code: string) =>
+        hold(`<code class="bg-gem-mist/50 px-1 py-0.5 rounded-sm font-mono text-sm">${escapeHtml(code.trim())}</code>`));
+
+    // Backslash escapes for markdown punctuation.
+    html = html.replace(/\\([\\`*_{}\[\]()#+\-.!|~>])/g, (_m, char: string) => hold(escapeHtml(char)));
+
+    html = escapeHtml(html);
+
+    // Links: [label](url "title"). The label is rendered inline, the URL must use a safe scheme.
+    html = html.replace(/\[([^\]]+)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+&quot;(.*?)&quot;)?\s*\)/g, (match, label: string, url: string, title?: string) => {
+        if (!SAFE_URL_PATTERN.test(url.replace(/&amp;/g, '&'))) {
+            return label;
+        }
+        const titleAttr = title ? ` title="${title}"` : '';
+        return hold(`<a href="${url}"${titleAttr} target="_blank" rel="noopener noreferrer" class="text-gem-blue underline">${renderEmphasis(label)}</a>`);
+    });
+
+    // Bare URLs, stopping at trailing punctuation, entities other than &amp; and private-use markers.
+    html = html.replace(/\bhttps?:\/\/(?:[^\s<>&\uE000-\uF8FF]|&amp;)*[^\s<>&.,:;!?'")\]\uE000-\uF8FF]/g, (url: string) =>
+        hold(`<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-gem-blue underline">${url}</a>`));
+
+    html = renderEmphasis(html);
+
+    // Placeholders can nest (e.g. a code span inside a link label), so restore until stable.
+    let previous;
+    do {
+        previous = html;
+        html = html.replace(PLACEHOLDER_PATTERN, (_m, index: string) => placeholders[Number(index)] ?? '');
+    } while (html !== previous);
+
+    return html;
+}
+
+function renderEmphasis(html: string): string {
+    return html
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+        .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+        .replace(/(^|[^\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>');
+}
+
+// --- Blocks ---------------------------------------------------------------
+
+interface BlockResult {
+    html: string;
+    next: number;
+}
+
+function renderCodeBlock(lines: string[], start: number, options: MarkdownOptions): BlockResult {
+    const open = lines[start].match(FENCE_PATTERN)!;
+    const fence = open[1];
+    const language = open[2] || '';
+    const body: string[] = [];
+    let i = start + 1;
+    while (i < lines.length && !new RegExp(`^\\s{0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[i])) {
+        body.push(lines[i]);
+        i++;
+    }
+
+    const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+    const header = options.copyButtons
+        ? `<div class="code-block-header"><span>${escapeHtml(language)}</span><button type="button" class="code-copy-button" data-copy-code title="Copy code">Copy</button></div>`
+        : '';
+    return {
+        html: `<div class="code-block my-2">${header}<pre><code${languageClass}>${escapeHtml(body.join('\n'))}</code></pre></div>`,
+        next: i + 1,
+    };
+}
+
+function splitTableRow(line: string): string[] {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+    return i + 1 < lines.length
+        && lines[i].includes('|')
+        && TABLE_DELIMITER_PATTERN.test(lines[i + 1])
+        && lines[i + 1].includes('-');
+}
+
+function renderTable(lines: string[], start: number): BlockResult {
+    const headers = splitTableRow(lines[start]);
+    const aligns = splitTableRow(lines[start + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+    });
+    const cell = (tag: 'th' | 'td', content: string, index: number) => {
+        const align = aligns[index];
+        return `<${tag}${align ? ` style="text-align:${align}"` : ''}>${renderInline(content)}</${tag}>`;
+    };
+
+    let i = start + 2;
+    const rows: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(`<tr>${headers.map((_h, index) => cell('td', cells[index] || '', index)).join('')}</tr>`);
+        i++;
+    }
+
+    return {
+        html: `<div class="overflow-x-auto my-2"><table class="markdown-table"><thead><tr>${headers.map((h, index) => cell('th', h, index)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table></div>`,
+        next: i,
+    };
+}
+
+function renderListItemContent(content: string): string {
+    const task = content.match(/^\[([ xX])\]\s+(.*)$/);
+    if (task) {
+        const checked = task[1] !== ' ' ? ' checked' : '';
+        return `<input type="checkbox" disabled${checked} class="mr-1 align-middle" />${renderInline(task[2])}`;
+    }
+    return renderInline(content);
+}
+
+function renderList(lines: string[], start: number): BlockResult {
+    const first = lines[start].match(LIST_ITEM_PATTERN)!;
+    const baseIndent = indentWidth(lines[start]);
+    const ordered = /\d/.test(first[2]);
+    const items: string[] = [];
+    let i = start;
+
+    while (i < lines.length) {
+        const match = lines[i].match(LIST_ITEM_PATTERN);
+        if (!match || indentWidth(lines[i]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+        let content = match[3];
+        let children = '';
+        i++;
+
+        while (i < lines.length) {
+            const line = lines[i];
+            if (isBlank(line)) {
+                // A blank line only continues the item if indented content follows it.
+                let j = i + 1;
+                while (j < lines.length && isBlank(lines[j])) j++;
+                if (j < lines.length && indentWidth(lines[j]) > baseIndent) {
+                    i = j;
+                    continue;
+                }
+                break;
+            }
+            const nested = line.match(LIST_ITEM_PATTERN);
+            if (nested && indentWidth(line) > baseIndent) {
+                const sublist = renderList(lines, i);
+                children += sublist.html;
+                i = sublist.next;
+                continue;
+            }
+            if (nested || indentWidth(line) <= baseIndent && startsBlock(lines, i)) break;
+            if (indentWidth(line) <= baseIndent && children) break;
+            content += `\n${line.trim()}`;
+            i++;
+        }
+
+        const body = content.split('\n').map(renderListItemContent).join('<br/>');
+        items.push(`<li>${body}${children}</li>`);
+    }
+
+    const startNumber = ordered ? parseInt(first[2], 10) : 1;
+    const html = ordered
+        ? `<ol class="list-decimal my-2 pl-6 space-y-1"${startNumber !== 1 ? ` start="${startNumber}"` : ''}>${items.join('')}</ol>`
+        : `<ul class="list-disc my-2 pl-6 space-y-1">${items.join('')}</ul>`;
+    return { html, next: i };
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+    const line = lines[i];
+    return FENCE_PATTERN.test(line)
+        || HEADING_PATTERN.test(line)
+        || HR_PATTERN.test(line)
+        || LIST_ITEM_PATTERN.test(line)
+        || BLOCKQUOTE_PATTERN.test(line)
+        || isTableStart(lines, i);
+}
+
+const HEADING_CLASSES = [
+    'text-2xl font-bold mt-4 mb-2',
+    'text-xl font-bold mt-4 mb-2',
+    'text-lg font-semibold mt-3 mb-1',
+    'font-semibold mt-2 mb-1',
+    'font-semibold mt-2 mb-1',
+    'font-semibold mt-2 mb-1',
+];
+
+function renderBlocks(lines: string[], options: MarkdownOptions): string {
+    let html = '';
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (isBlank(line)) {
+            i++;
+            continue;
+        }
+
+        if (FENCE_PATTERN.test(line)) {
+            const block = renderCodeBlock(lines, i, options);
+            html += block.html;
+            i = block.next;
+            continue;
+        }
+
+        const heading = line.match(HEADING_PATTERN);
+        if (heading) {
+            const level = heading[1].length;
+            html += `<h${level} class="${HEADING_CLASSES[level - 1]}">${renderInline(heading[2])}</h${level}>`;
+            i++;
+            continue;
+        }
+
+        if (HR_PATTERN.test(line)) {
+            html += '<hr class="my-4 border-gem-mist" />';
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const block = renderTable(lines, i);
+            html += block.html;
+            i = block.next;
+            continue;
+        }
+
+        if (BLOCKQUOTE_PATTERN.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && !isBlank(lines[i])) {
+                const match = lines[i].match(BLOCKQUOTE_PATTERN);
+                quoted.push(match ? match[1] : lines[i]);
+                i++;
+            }
+            html += `<blockquote class="border-l-4 border-gem-mist pl-3 my-2 text-gem-offwhite/80">${renderBlocks(quoted, options)}</blockquote>`;
+            continue;
+        }
+
+        if (LIST_ITEM_PATTERN.test(line)) {
+            const block = renderList(lines, i);
+            html += block.html;
+            i = block.next;
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines, i))) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        html += `<p class="my-2">${paragraph.map(renderInline).join('<br/>')}</p>`;
+    }
+
+    return html;
+}
+
+export function renderMarkdown(text: string, options: MarkdownOptions = {}): string {
+    if (!text) return '';
+    // Placeholder delimiters in the input would be restored as another span's HTML.
+    const lines = text.replace(/\r\n?/g, '\n').replace(PLACEHOLDER_CHARS, '').split('\n');
+    return renderBlocks(lines, { copyButtons: true, ...options });
+}
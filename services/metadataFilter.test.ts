@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { CustomMetadata, Document, MetadataFilter } from '../types';
+import { buildMetadataFilter, listMetadataKeys, matchesMetadataFilter, parseInlineFilters } from './metadataFilter';
+
+describe('parseInlineFilters', () => {
+    it('pulls known keys out of the question', () => {
+        expect(parseInlineFilters('How do I clean the filter? product:washer year>=2024', ['product', 'year'])).toEqual({
+            query: 'How do I clean the filter?',
+            filters: [
+                { key: 'product', operator: '=', value: 'washer' },
+                { key: 'year', operator: '>=', value: 2024 },
+            ],
+        });
+    });
+
+    it('leaves unknown keys and ordinary colons in the text', () => {
+        expect(parseInlineFilters('Mix at ratio 3:1 note:important', ['product'])).toEqual({
+            query: 'Mix at ratio 3:1 note:important',
+            filters: [],
+        });
+    });
+
+    it('matches keys case-insensitively and keeps the library spelling', () => {
+        expect(parseInlineFilters('Brand:Hyundai warranty', ['brand']).filters).toEqual([{ key: 'brand', operator: '=', value: 'Hyundai' }]);
+    });
+
+    it('keeps quoted values as strings, spaces and digits included', () => {
+        expect(parseInlineFilters('model:"Nimbus 2" code:"042" q', ['model', 'code']).filters).toEqual([
+            { key: 'model', operator: '=', value: 'Nimbus 2' },
+            { key: 'code', operator: '=', value: '042' },
+        ]);
+    });
+
+    it('returns an empty query when the message is only filters', () => {
+        expect(parseInlineFilters('product:washer  year!=2020', ['product', 'year']).query).toBe('');
+    });
+
+    it('parses nothing without known keys', () => {
+        expect(parseInlineFilters('product:washer', [])).toEqual({ query: 'product:washer', filters: [] });
+    });
+});
+
+describe('buildMetadataFilter', () => {
+    it('returns undefined without filters', () => {
+        expect(buildMetadataFilter([])).toBeUndefined();
+    });
+
+    it('ORs equality on the same key and ANDs the rest', () => {
+        expect(buildMetadataFilter([
+            { key: 'year', operator: '>=', value: 2020 },
+            { key: 'brand', operator: '=', value: 'Hyundai' },
+            { key: 'brand', operator: '=', value: 'Kia' },
+        ])).toBe('(brand = "Hyundai" OR brand = "Kia") AND year >= 2020');
+    });
+
+    it('escapes quotes and backslashes in string values', () => {
+        expect(buildMetadataFilter([{ key: 'title', operator: '!=', value: 'say "hi" \\o/' }])).toBe('title != "say \\"hi\\" \\\\o/"');
+    });
+
+    it('uses the membership form for list keys', () => {
+        expect(buildMetadataFilter([
+            { key: 'tags', operator: '=', value: 'safety' },
+            { key: 'tags', operator: '=', value: 'setup' },
+            { key: 'brand', operator: '=', value: 'Kia' },
+        ], ['tags'])).toBe('brand = "Kia" AND (tags:"safety" OR tags:"setup")');
+    });
+
+    it('produces filters the local matcher agrees with', () => {
+        const metadata = [
+            { key: 'tags', stringListValue: ['safety', 'cleaning'] },
+            { key: 'year', numericValue: 2024 },
+        ];
+        const matches = (filters: MetadataFilter[]) =>
+            matchesMetadataFilter(metadata, buildMetadataFilter(filters, ['tags']));
+        expect(matches([{ key: 'tags', operator: '=', value: 'safety' }, { key: 'year', operator: '>', value: 2020 }])).toBe(true);
+        expect(matches([{ key: 'tags', operator: '=', value: 'setup' }])).toBe(false);
+        expect(matches([{ key: 'year', operator: '<', value: 2024 }])).toBe(false);
+    });
+
+    it('keeps AND, OR and parentheses inside quoted values', () => {
+        const metadata = [{ key: 'brand', stringValue: 'Black AND Decker' }, { key: 'model', stringValue: 'Mix (OR) Max' }];
+        const filter = buildMetadataFilter([
+            { key: 'brand', operator: '=', value: 'Black AND Decker' },
+            { key: 'brand', operator: '=', value: 'Kia' },
+            { key: 'model', operator: '=', value: 'Mix (OR) Max' },
+        ]);
+        expect(filter).toBe('model = "Mix (OR) Max" AND (brand = "Black AND Decker" OR brand = "Kia")');
+        expect(matchesMetadataFilter(metadata, filter)).toBe(true);
+        expect(matchesMetadataFilter(metadata, 'brand = "Black" AND model = "Mix (OR) Max"')).toBe(false);
+    });
+});
+
+describe('matchesMetadataFilter', () => {
+    it('does not match a comparison it cannot parse', () => {
+        const metadata = [{ key: 'brand', stringValue: 'Black' }, { key: 'year', numericValue: 2024 }];
+        expect(matchesMetadataFilter(metadata, 'brand = "Black')).toBe(false);
+        expect(matchesMetadataFilter(metadata, 'year = soon')).toBe(false);
+        expect(matchesMetadataFilter(metadata, 'brand = "Black" OR brand = "oops')).toBe(true);
+    });
+});
+
+describe('listMetadataKeys', () => {
+    it('lists each key holding a string list once', () => {
+        const doc = (customMetadata: CustomMetadata[]): Document => ({ name: 'd', displayName: 'd', customMetadata });
+        expect(listMetadataKeys([
+            doc([{ key: 'tags', stringListValue: ['a'] }, { key: 'brand', stringValue: 'Kia' }]),
+            doc([{ key: 'tags', stringListValue: ['b'] }]),
+        ])).toEqual(['tags']);
+    });
+});
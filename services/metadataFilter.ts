@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CustomMetadata, Document, MetadataFilter, MetadataOperator } from '../types';
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+// Matches `key:value`, `key=value`, `key>=2020`, `key:"two words"` and friends.
+const INLINE_FILTER_PATTERN = /(^|\s)([A-Za-z_][\w.-]*)(!=|>=|<=|:|=|>|<)("([^"]*)"|[^\s"]+)(?=\s|$)/g;
+
+/** Sent in place of a message that held nothing but inline filters. */
+export const FILTER_ONLY_QUERY = 'Give an overview of what these documents cover.';
+
+function toValue(raw: string, quoted: boolean): string | number {
+    return !quoted && NUMBER_PATTERN.test(raw) ? Number(raw) : raw;
+}
+
+/**
+ * Pulls inline filters such as `product:washer year>=2024` out of a chat message.
+ * Only keys listed in `knownKeys` are treated as filters so ordinary text like
+ * "ratio 3:1" is left alone.
+ */
+export function parseInlineFilters(message: string, knownKeys: string[]): { query: string; filters: MetadataFilter[] } {
+    const keys = new Set(knownKeys.map(k => k.toLowerCase()));
+    const filters: MetadataFilter[] = [];
+    if (keys.size === 0) {
+        return { query: message, filters };
+    }
+
+    const query = message.replace(INLINE_FILTER_PATTERN, (match, lead: string, key: string, op: string, raw: string, quotedValue?: string) => {
+        if (!keys.has(key.toLowerCase())) return match;
+        const operator: MetadataOperator = op === ':' ? '=' : op as MetadataOperator;
+        const value = toValue(quotedValue ?? raw, quotedValue !== undefined);
+        filters.push({ key: knownKeys.find(k => k.toLowerCase() === key.toLowerCase())!, operator, value });
+        return lead;
+    }).replace(/\s+/g, ' ').trim();
+
+    return { query, filters };
+}
+
+function formatValue(value: string | number): string {
+    return typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Builds the AIP-160 style `metadataFilter` string expected by the fileSearch tool.
+ * Equality filters on the same key are OR'ed together; everything else is AND'ed.
+ * Keys in `listKeys` hold string lists, so equality on them becomes the
+ * membership test `key:"value"`.
+ */
+export function buildMetadataFilter(filters: MetadataFilter[], listKeys: string[] = []): string | undefined {
+    if (filters.length === 0) return undefined;
+
+    const equalityGroups = new Map<string, MetadataFilter[]>();
+    const clauses: string[] = [];
+
+    for (const filter of filters) {
+        if (filter.operator === '=') {
+            const group = equalityGroups.get(filter.key) || [];
+            group.push(filter);
+            equalityGroups.set(filter.key, group);
+        } else {
+            clauses.push(`${filter.key} ${filter.operator} ${formatValue(filter.value)}`);
+        }
+    }
+
+    equalityGroups.forEach((group, key) => {
+        const operator = listKeys.includes(key) ? ':' : ' = ';
+        const parts = group.map(f => `${key}${operator}${formatValue(f.value)}`);
+        clauses.unshift(parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0]);
+    });
+
+    return clauses.join(' AND ');
+}
+
+function metadataValues(meta: CustomMetadata): (string | number)[] {
+    if (meta.numericValue !== undefined) return [meta.numericValue];
+    if (meta.stringListValue) return meta.stringListValue;
+    return meta.stringValue !== undefined ? [meta.stringValue] : [];
+}
+
+function compare(actual: string | number, operator: string, expected: string | number): boolean {
+    switch (operator) {
+        case '=':
+        case ':': return actual === expected;
+        case '!=': return actual !== expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        default: return false;
+    }
+}
+
+/**
+ * Splits `text` at every top-level `AND` or `OR`, skipping quoted strings and
+ * parenthesized groups, so values like "Black AND Decker" stay whole.
+ */
+function splitOutside(text: string, keyword: 'AND' | 'OR'): string[] {
+    const separator = new RegExp(`^\\s+${keyword}\\s+`);
+    const parts: string[] = [];
+    let start = 0;
+    let depth = 0;
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '\\') i++;
+            else if (char === '"') quoted = false;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (depth === 0) {
+            const match = text.slice(i).match(separator);
+            if (match) {
+                parts.push(text.slice(start, i));
+                i += match[0].length - 1;
+                start = i + 1;
+            }
+        }
+    }
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim());
+}
+
+function parseFilterValue(raw: string): string | number | null {
+    if (!raw.startsWith('"')) return Number.isNaN(Number(raw)) ? null : Number(raw);
+    try {
+        const value = JSON.parse(raw);
+        return typeof value === 'string' ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Evaluates a filter string locally, for providers that retrieve in the
+ * browser. Supports the subset of AIP-160 produced by `buildMetadataFilter`:
+ * comparisons joined by AND, optionally grouping ORed comparisons in parentheses.
+ * List values match `=` and `:` when any item matches. A comparison that can't
+ * be parsed matches nothing.
+ */
+export function matchesMetadataFilter(metadata: CustomMetadata[] = [], metadataFilter?: string): boolean {
+    if (!metadataFilter) return true;
+
+    return splitOutside(metadataFilter.trim(), 'AND').every(clause => {
+        const group = clause.startsWith('(') && clause.endsWith(')') ? clause.slice(1, -1) : clause;
+        return splitOutside(group, 'OR').some(comparison => {
+            const match = comparison.match(/^([\w.-]+)\s*(!=|<=|>=|=|<|>|:)\s*(.+)$/);
+            const expected = match && parseFilterValue(match[3]);
+            if (!match || expected === null) return false;
+            const [, key, operator] = match;
+            return metadata
+                .filter(meta => meta.key === key)
+                .some(meta => metadataValues(meta).some(actual => typeof actual === typeof expected && compare(actual, operator, expected)));
+        });
+    });
+}
+
+export function formatFilter(filter: MetadataFilter): string {
+    return filter.operator === '='
+        ? `${filter.key}: ${filter.value}`
+        : `${filter.key} ${filter.operator} ${filter.value}`;
+}
+
+export function isSameFilter(a: MetadataFilter, b: MetadataFilter): boolean {
+    return a.key === b.key && a.operator === b.operator && a.value === b.value;
+}
+
+/** Keys that hold a `stringListValue` in any of `documents`. */
+export function listMetadataKeys(documents: Document[]): string[] {
+    const keys = documents.flatMap(doc => doc.customMetadata || []).flatMap(meta => meta.key && meta.stringListValue ? [meta.key] : []);
+    return Array.from(new Set(keys));
+}
+
+/**
+ * Collects the distinct metadata key/value pairs across a library's documents,
+ * used to offer one-click filter chips.
+ */
+export function collectMetadataFilters(documents: Document[]): MetadataFilter[] {
+    const seen = new Set<string>();
+    const filters: MetadataFilter[] = [];
+
+    const add = (key: string, value: string | number) => {
+        const id = `${key}\u0000${typeof value}\u0000${value}`;
+        if (seen.has(id)) return;
+        seen.add(id);
+        filters.push({ key, operator: '=', value });
+    };
+
+    for (const doc of documents) {
+        for (const meta of doc.customMetadata || []) {
+            if (!meta.key) continue;
+            if (meta.stringValue !== undefined) add(meta.key, meta.stringValue);
+            if (meta.numericValue !== undefined) add(meta.key, meta.numericValue);
+            meta.stringListValue?.forEach(value => add(meta.key!, value));
+        }
+    }
+
+    return filters.sort((a, b) => a.key.localeCompare(b.key) || String(a.value).localeCompare(String(b.value)));
+}
+
+/**
+ * Turns a free-form value from the metadata form into typed `CustomMetadata`:
+ * numbers become `numericValue`, comma-separated values a `stringListValue`.
+ */
+export function toCustomMetadata(key: string, value: string): CustomMetadata {
+    const trimmed = value.trim();
+    if (NUMBER_PATTERN.test(trimmed)) {
+        return { key, numericValue: Number(trimmed) };
+    }
+    if (trimmed.includes(',')) {
+        return { key, stringListValue: trimmed.split(',').map(v => v.trim()).filter(Boolean) };
+    }
+    return { key, stringValue: trimmed };
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GENERATION_SETTINGS } from './settings';
+import { mockProvider } from './mockService';
+
+const COFFEE = `# Brewline care
+
+Descale the machine every 40 brew cycles with the Brewline descaling solution.
+
+Rinse the carafe with warm water after each use.`;
+
+const VACUUM = `# Nimbus robot vacuum
+
+Empty the dust bin after every cleaning run. Replace the side brush every three months.`;
+
+async function createLibrary() {
+    const store = await mockProvider.createRagStore('Manuals');
+    await mockProvider.uploadToRagStore(store, new File([COFFEE], 'brewline.md', { type: 'text/markdown' }), [{ key: 'product', stringValue: 'coffee' }]);
+    await mockProvider.uploadToRagStore(store, new File([VACUUM], 'nimbus.md', { type: 'text/markdown' }), [{ key: 'product', stringValue: 'vacuum' }]);
+    return store;
+}
+
+const byteSlice = (text: string, start: number, end: number) =>
+    new TextDecoder().decode(new TextEncoder().encode(text).slice(start, end));
+
+describe('mock provider retrieval', () => {
+    it('retrieves the chunks that share keywords with the question', async () => {
+        const store = await createLibrary();
+        const result = await mockProvider.fileSearch([store], 'How often should I descale the machine?');
+        expect(result.groundingChunks.map(chunk => chunk.retrievedContext?.title)).toEqual(['brewline.md']);
+        expect(result.text).toContain('Descale the machine every 40 brew cycles');
+    });
+
+    it('ranks chunks by the number of matching words', async () => {
+        const store = await createLibrary();
+        const result = await mockProvider.fileSearch([store], 'brush cleaning rinse');
+        expect(result.groundingChunks.map(chunk => chunk.retrievedContext?.title)).toEqual(['nimbus.md', 'brewline.md']);
+    });
+
+    it('applies the metadata filter', async () => {
+        const store = await createLibrary();
+        const result = await mockProvider.fileSearch([store], 'cleaning rinse', 'product = "coffee"');
+        expect(result.groundingChunks.map(chunk => chunk.retrievedContext?.title)).toEqual(['brewline.md']);
+    });
+
+    it('says so when nothing matches', async () => {
+        const store = await createLibrary();
+        const result = await mockProvider.fileSearch([store], 'warranty');
+        expect(result.groundingChunks).toEqual([]);
+        expect(result.text).toContain("couldn't find anything");
+    });
+});
+
+describe('mock provider grounding', () => {
+    it('returns the same answer, chunks and supports for the same inputs', async () => {
+        const first = await createLibrary();
+        const second = await createLibrary();
+        const question = 'How do I clean the brush and the carafe?';
+        const a = await mockProvider.fileSearch([first], question);
+        const b = await mockProvider.fileSearch([second], question);
+        expect(a).toEqual(await mockProvider.fileSearch([first], question));
+        // Only the library name differs between two libraries with the same uploads.
+        expect(JSON.stringify(b).replaceAll(second, first)).toBe(JSON.stringify(a));
+    });
+
+    it('points every support at the sentence it covers and the chunk it came from', async () => {
+        const store = await createLibrary();
+        const result = await mockProvider.fileSearch([store], 'descale brush');
+        expect(result.groundingSupports).toHaveLength(result.groundingChunks.length);
+        result.groundingSupports!.forEach((support, index) => {
+            const { startIndex, endIndex, text } = support.segment!;
+            expect(byteSlice(result.text, startIndex!, endIndex!)).toBe(text);
+            expect(support.groundingChunkIndices).toEqual([index]);
+            expect(result.groundingChunks[index].retrievedContext?.text?.replace(/\s+/g, ' ')).toContain(text);
+        });
+    });
+
+    it('streams the text and ends with the full result', async () => {
+        const store = await createLibrary();
+        const updates: string[] = [];
+        const streamed = await mockProvider.fileSearchStream([store], 'descale', undefined, [], DEFAULT_GENERATION_SETTINGS, partial => updates.push(partial.text));
+        expect(streamed).toEqual(await mockProvider.fileSearch([store], 'descale'));
+        expect(updates.length).toBeGreaterThan(2);
+        expect(updates.at(-1)).toBe(streamed.text);
+    });
+});
@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, QueryResult, CustomMetadata, ChatMessage, GroundingChunk, GroundingSupport, GenerationSettings, UploadOptions } from '../types';
+import { matchesMetadataFilter } from './metadataFilter';
+import type { SearchProvider } from './searchProvider';
+
+/**
+ * An in-memory provider for demos, offline development and automated tests.
+ * Uploaded text files are split into chunks and searched by keyword overlap;
+ * answers are stitched together from the best chunks, so the same inputs
+ * always produce the same output.
+ */
+
+interface MockDocument {
+    document: Document;
+    chunks: string[];
+}
+
+interface MockStore {
+    store: RagStore;
+    documents: Map<string, MockDocument>;
+}
+
+const CHUNK_SIZE = 800;
+const TOP_K = 3;
+const STREAM_DELAY_MS = 15;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'from', 'have', 'has',
+    'was', 'were', 'what', 'when', 'where', 'which', 'who', 'how', 'why', 'can', 'does', 'did', 'about',
+    'into', 'its', 'they', 'them', 'then', 'than', 'there', 'their', 'will', 'would', 'should', 'could',
+    'any', 'all', 'our', 'out', 'use', 'used', 'using', 'may', 'must', 'also', 'more', 'some', 'such',
+]);
+
+const stores = new Map<string, MockStore>();
+let nextId = 1;
+
+async function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function tokenize(text: string): string[] {
+    return Array.from(text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => match[0])
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function utf8ByteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+function getStore(ragStoreName: string): MockStore {
+    const entry = stores.get(ragStoreName);
+    if (!entry) throw new Error(`RAG store ${ragStoreName} not found.`);
+    return entry;
+}
+
+function toRagStore(entry: MockStore): RagStore {
+    return { ...entry.store, documentCount: entry.documents.size };
+}
+
+// Splits on blank lines and packs paragraphs into chunks of roughly CHUNK_SIZE characters.
+function chunkText(text: string): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        if (current && current.length + paragraph.length > CHUNK_SIZE) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+        while (current.length > CHUNK_SIZE * 2) {
+            chunks.push(current.slice(0, CHUNK_SIZE));
+            current = current.slice(CHUNK_SIZE);
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+function isTextFile(file: File): boolean {
+    return file.type.startsWith('text/')
+        || file.type === 'application/json'
+        || /\.(txt|md|markdown|csv|json|html?)$/i.test(file.name);
+}
+
+// --- Retrieval ----------------------------------------------------------------
+
+interface ScoredChunk {
+    ragStoreName: string;
+    document: Document;
+    text: string;
+    score: number;
+}
+
+function retrieve(ragStoreNames: string[], query: string, metadataFilter?: string): ScoredChunk[] {
+    const terms = new Set(tokenize(query));
+    if (terms.size === 0) return [];
+
+    const scored: ScoredChunk[] = [];
+    for (const ragStoreName of ragStoreNames) {
+        for (const { document, chunks } of getStore(ragStoreName).documents.values()) {
+            if (!matchesMetadataFilter(document.customMetadata, metadataFilter)) continue;
+            for (const text of chunks) {
+                const score = tokenize(text).filter(word => terms.has(word)).length;
+                if (score > 0) scored.push({ ragStoreName, document, text, score });
+            }
+        }
+    }
+    // Stable order: best score first, then upload order.
+    return scored.sort((a, b) => b.score - a.score).slice(0, TOP_K);
+}
+
+function firstSentence(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const match = flat.match(/^.{20,300}?[.!?](?=\s|$)/);
+    return match ? match[0] : flat.slice(0, 300);
+}
+
+/** Builds an answer with one sentence per retrieved chunk and a grounding support for each. */
+function composeAnswer(intro: string, sentences: string[], chunks: GroundingChunk[]): QueryResult {
+    let text = intro;
+    const groundingSupports: GroundingSupport[] = [];
+    sentences.forEach((sentence, index) => {
+        text += '\n\n';
+        const startIndex = utf8ByteLength(text);
+        text += sentence;
+        groundingSupports.push({
+            segment: { startIndex, endIndex: utf8ByteLength(text), text: sentence },
+            groundingChunkIndices: [index],
+        });
+    });
+    return { text, groundingChunks: chunks, groundingSupports };
+}
+
+/**
+ * Replays a finished result as a stream, word by word, with the grounding
+ * metadata attached to the final update like the Gemini API does.
+ */
+async function streamResult(
+    result: QueryResult,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    const pieces = result.text.match(/\S+\s*|\s+/g) || [];
+    const partial: QueryResult = { text: '', groundingChunks: [] };
+    for (const piece of pieces) {
+        if (abortSignal?.aborted) return partial;
+        await delay(STREAM_DELAY_MS);
+        partial.text += piece;
+        onUpdate({ ...partial });
+    }
+    if (abortSignal?.aborted) return partial;
+    onUpdate(result);
+    return result;
+}
+
+// --- Provider -------------------------------------------------------------------
+
+export function initialize() {
+    // Nothing to set up; stores live for the lifetime of the page.
+}
+
+export async function createRagStore(displayName: string): Promise<string> {
+    const name = `fileSearchStores/mock-store-${nextId++}`;
+    stores.set(name, {
+        store: { name, displayName, createTime: new Date().toISOString(), documentCount: 0 },
+        documents: new Map(),
+    });
+    return name;
+}
+
+export async function listRagStores(): Promise<RagStore[]> {
+    return Array.from(stores.values()).map(toRagStore);
+}
+
+export async function getRagStore(ragStoreName: string): Promise<RagStore> {
+    return toRagStore(getStore(ragStoreName));
+}
+
+export async function deleteRagStore(ragStoreName: string): Promise<void> {
+    stores.delete(ragStoreName);
+}
+
+export async function uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[] = [], options: UploadOptions = {}): Promise<void> {
+    const entry = getStore(ragStoreName);
+    options.onStateChange?.('uploading');
+    const text = isTextFile(file) ? await file.text() : '';
+    options.abortSignal?.throwIfAborted();
+    options.onStateChange?.('indexing');
+    if (!text) {
+        console.warn(`The mock provider only indexes text files; ${file.name} was stored without content.`);
+    }
+    const name = `${ragStoreName}/documents/mock-doc-${nextId++}`;
+    entry.documents.set(name, {
+        document: {
+            name,
+            displayName: file.name,
+            customMetadata: metadata,
+            state: 'STATE_ACTIVE',
+            sizeBytes: file.size,
+            mimeType: file.type || undefined,
+            createTime: new Date().toISOString(),
+        },
+        chunks: chunkText(text),
+    });
+}
+
+export async function listDocuments(ragStoreName: string): Promise<Document[]> {
+    return Array.from(getStore(ragStoreName).documents.values()).map(({ document }) => document);
+}
+
+export async function deleteDocument(documentName: string): Promise<void> {
+    const ragStoreName = documentName.split('/documents/')[0];
+    getStore(ragStoreName).documents.delete(documentName);
+}
+
+export async function rewriteStandaloneQuestion(_history: ChatMessage[], question: string): Promise<string> {
+    return question;
+}
+
+export async function fileSearch(ragStoreNames: string[], query: string, metadataFilter?: string, _history: ChatMessage[] = []): Promise<QueryResult> {
+    const results = retrieve(ragStoreNames, query, metadataFilter);
+    if (results.length === 0) {
+        return { text: "I couldn't find anything about that in the uploaded documents.", groundingChunks: [], groundingSupports: [] };
+    }
+    const chunks: GroundingChunk[] = results.map(({ ragStoreName, document, text }) => ({
+        retrievedContext: { text, title: document.displayName, fileSearchStore: ragStoreName },
+    }));
+    return composeAnswer(
+        `Here is what the documents say about "${query}":`,
+        results.map(({ text }) => firstSentence(text)),
+        chunks,
+    );
+}
+
+export async function fileSearchStream(
+    ragStoreNames: string[],
+    query: string,
+    metadataFilter: string | undefined,
+    history: ChatMessage[],
+    _settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    return streamResult(await fileSearch(ragStoreNames, query, metadataFilter, history), onUpdate, abortSignal);
+}
+
+export async function webSearch(query: string, _history: ChatMessage[] = []): Promise<QueryResult> {
+    const uri = `https://example.com/search?q=${encodeURIComponent(query)}`;
+    return composeAnswer(
+        'This is a mock web search result.',
+        [`The offline provider does not access the internet, so no real results are available for "${query}".`],
+        [{ web: { uri, title: 'example.com' } }],
+    );
+}
+
+export async function webSearchStream(
+    query: string,
+    history: ChatMessage[],
+    _settings: GenerationSettings,
+    onUpdate: (partial: QueryResult) => void,
+    abortSignal?: AbortSignal,
+): Promise<QueryResult> {
+    return streamResult(await webSearch(query, history), onUpdate, abortSignal);
+}
+
+/** Asks about the most frequent terms of each document. */
+export async function generateExampleQuestions(ragStoreName: string): Promise<string[]> {
+    const questions: string[] = [];
+    for (const { document, chunks } of getStore(ragStoreName).documents.values()) {
+        const counts = new Map<string, number>();
+        chunks.flatMap(tokenize).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+        Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .slice(0, 2)
+            .forEach(([word]) => questions.push(`What does ${document.displayName} say about ${word}?`));
+    }
+    return questions;
+}
+
+export async function generateWebSearchQuestions(): Promise<string[]> {
+    return [
+        "What is retrieval-augmented generation?",
+        "How do vector databases work?",
+    ];
+}
+
+export const mockProvider: SearchProvider = {
+    id: 'mock',
+    initialize,
+    createRagStore,
+    listRagStores,
+    getRagStore,
+    deleteRagStore,
+    uploadToRagStore,
+    listDocuments,
+    deleteDocument,
+    rewriteStandaloneQuestion,
+    fileSearch,
+    fileSearchStream,
+    webSearch,
+    webSearchStream,
+    generateExampleQuestions,
+    generateWebSearchQuestions,
+};
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { OcrPageResult } from '../types';
+import type { UploadFn } from './uploadQueue';
+
+/** Photos of pages that can be recognized; other images are rejected at upload. */
+export const OCR_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.bmp'];
+
+export const DEFAULT_OCR_LANGUAGES = 'eng';
+
+export interface OcrPageText {
+    pageNumber: number;
+    text: string;
+    /** Only set for pages that went through OCR; pages with a text layer keep their own text. */
+    confidence?: number;
+}
+
+export type OcrRequest =
+    | { type: 'recognize'; id: number; file: File; languages: string }
+    | { type: 'cancel'; id: number };
+
+export type OcrResponse =
+    | { id: number; page: OcrPageText }
+    | { id: number; done: true }
+    | { id: number; error: string };
+
+export interface OcrOptions {
+    /** Tesseract language codes joined with `+`, e.g. `eng+deu`. */
+    languages?: string;
+    abortSignal?: AbortSignal;
+    /** Called for every page that went through OCR, as soon as it is recognized. */
+    onPage?: (page: OcrPageResult) => void;
+}
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+export function isOcrImage(file: File): boolean {
+    return OCR_IMAGE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+}
+
+/** Whether `file` is a format the OCR stage can read. PDFs with a text layer pass through unchanged. */
+export function canRecognize(file: File): boolean {
+    return isPdf(file) || isOcrImage(file);
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+    pages: OcrPageText[];
+    onPage: (page: OcrPageText) => void;
+    resolve: (pages: OcrPageText[]) => void;
+    reject: (error: Error) => void;
+}>();
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL('./ocr.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<OcrResponse>) => {
+            const request = pending.get(event.data.id);
+            if (!request) return;
+            if ('page' in event.data) {
+                request.pages.push(event.data.page);
+                request.onPage(event.data.page);
+                return;
+            }
+            pending.delete(event.data.id);
+            if ('error' in event.data) {
+                request.reject(new Error(event.data.error));
+            } else {
+                request.resolve(request.pages);
+            }
+        };
+        worker.onerror = (event) => {
+            // A crashed worker fails everything in flight; the next call starts a fresh one.
+            const error = new Error(event.message || "OCR worker failed");
+            pending.forEach(request => request.reject(error));
+            pending.clear();
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+}
+
+function recognizePages(file: File, languages: string, onPage: (page: OcrPageText) => void, abortSignal?: AbortSignal): Promise<OcrPageText[]> {
+    return new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) return reject(abortSignal.reason);
+        const id = nextRequestId++;
+        const onAbort = () => {
+            pending.delete(id);
+            worker?.postMessage({ type: 'cancel', id } satisfies OcrRequest);
+            reject(abortSignal!.reason);
+        };
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+        const settle = <T,>(callback: (value: T) => void) => (value: T) => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            callback(value);
+        };
+        pending.set(id, { pages: [], onPage, resolve: settle(resolve), reject: settle(reject) });
+        getWorker().postMessage({ type: 'recognize', id, file, languages } satisfies OcrRequest);
+    });
+}
+
+/**
+ * Adds a searchable text layer to scanned PDFs and photos of pages. OCR runs
+ * in a Web Worker; pages that already have text keep it. Returns a Markdown
+ * file with one section per page, or the original file if nothing needed OCR.
+ */
+export async function recognizeFile(file: File, options: OcrOptions = {}): Promise<File> {
+    const pages = await recognizePages(
+        file,
+        options.languages || DEFAULT_OCR_LANGUAGES,
+        page => {
+            if (page.confidence !== undefined) options.onPage?.({ pageNumber: page.pageNumber, confidence: page.confidence });
+        },
+        options.abortSignal,
+    );
+    if (!pages.some(page => page.confidence !== undefined)) return file;
+    if (!pages.some(page => page.text.trim())) {
+        throw new Error(`OCR found no text in ${file.name}.`);
+    }
+
+    const sections = pages
+        .filter(page => page.text.trim())
+        .map(page => `## Page ${page.pageNumber}\n\n${page.text.trim()}`);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.ocr.md';
+    return new File([`# ${file.name}\n\n${sections.join('\n\n')}\n`], name, { type: 'text/markdown' });
+}
+
+const recognizedFiles = new WeakMap<File, File>();
+
+/**
+ * Wraps an upload function with an OCR stage for scanned PDFs and page photos.
+ * Recognized text is kept per file, so a retried upload doesn't run OCR again.
+ */
+export function withOcr(upload: UploadFn, languages = DEFAULT_OCR_LANGUAGES): UploadFn {
+    return async (file, options) => {
+        if (!canRecognize(file)) return upload(file, options);
+        let prepared = recognizedFiles.get(file);
+        if (!prepared) {
+            options.onStateChange?.('recognizing');
+            prepared = await recognizeFile(file, { languages, abortSignal: options.abortSignal, onPage: options.onOcrPage });
+            recognizedFiles.set(file, prepared);
+            options.onStateChange?.('uploading');
+        }
+        return upload(prepared, options);
+    };
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as pdfjs from 'pdfjs-dist';
+import { createWorker, Worker as Recognizer } from 'tesseract.js';
+import type { OcrPageText, OcrRequest, OcrResponse } from './ocr';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+/** Pages with less text than this are treated as scans and sent to OCR. */
+const MIN_TEXT_LAYER_CHARS = 20;
+/** Render scale for scanned PDF pages; roughly 150 DPI, enough for body text. */
+const RENDER_SCALE = 2;
+
+const cancelled = new Set<number>();
+let recognizer: { languages: string; worker: Promise<Recognizer> } | null = null;
+
+function getRecognizer(languages: string): Promise<Recognizer> {
+    if (recognizer?.languages !== languages) {
+        recognizer?.worker.then(worker => worker.terminate());
+        recognizer = { languages, worker: createWorker(languages) };
+    }
+    return recognizer.worker;
+}
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const throwIfCancelled = (id: number) => {
+    if (cancelled.has(id)) throw new Error("OCR cancelled");
+};
+
+async function recognizeImage(image: Blob | OffscreenCanvas, languages: string): Promise<{ text: string; confidence: number }> {
+    const { data } = await (await getRecognizer(languages)).recognize(image);
+    return { text: data.text, confidence: Math.round(data.confidence) };
+}
+
+async function recognizePdf(id: number, file: File, languages: string, onPage: (page: OcrPageText) => void): Promise<void> {
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            throwIfCancelled(id);
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const text = content.items
+                .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+                .join('');
+            if (text.trim().length >= MIN_TEXT_LAYER_CHARS) {
+                onPage({ pageNumber, text });
+            } else {
+                const viewport = page.getViewport({ scale: RENDER_SCALE });
+                const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+                const context = canvas.getContext('2d')!;
+                await page.render({
+                    canvasContext: context as unknown as CanvasRenderingContext2D,
+                    canvas: canvas as unknown as HTMLCanvasElement,
+                    viewport,
+                }).promise;
+                throwIfCancelled(id);
+                onPage({ pageNumber, ...await recognizeImage(canvas, languages) });
+            }
+            page.cleanup();
+        }
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+async function recognize(id: number, file: File, languages: string, onPage: (page: OcrPageText) => void): Promise<void> {
+    if (isPdf(file)) return recognizePdf(id, file, languages, onPage);
+    onPage({ pageNumber: 1, ...await recognizeImage(file, languages) });
+}
+
+self.onmessage = async (event: MessageEvent<OcrRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        cancelled.add(request.id);
+        return;
+    }
+    const { id, file, languages } = request;
+    const post = (response: OcrResponse) => self.postMessage(response);
+    try {
+        await recognize(id, file, languages, page => post({ id, page }));
+        post({ id, done: true });
+    } catch (error) {
+        post({ id, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+        cancelled.delete(id);
+    }
+};
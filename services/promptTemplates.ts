@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PromptTemplate } from '../types';
+
+export const PROMPT_TEMPLATES_STORAGE_KEY = 'mnemomind.promptTemplates';
+
+export const TEMPLATE_VARIABLES = ['query', 'documentName'] as const;
+
+export type TemplateVariables = Partial<Record<typeof TEMPLATE_VARIABLES[number], string>>;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'manuals',
+        name: 'Product manuals',
+        systemInstruction: 'You answer questions about the product manuals in the library "{documentName}". Do not ask the user to read the manual; pinpoint the relevant sections and steps in the response itself.',
+        queryTemplate: '{query}',
+        questionsPrompt: 'You are provided some user manuals for some products. Figure out for what product each manual is for, based on the cover page contents. DO NOT GUESS OR HALLUCINATE THE PRODUCT. Then, for each product, generate 4 short and practical example questions a user might ask about it in English.',
+        isBuiltIn: true,
+    },
+    {
+        id: 'legal',
+        name: 'Contracts & legal',
+        systemInstruction: 'You analyse the contracts and legal documents in the library "{documentName}". Quote the exact clause and name its section when you rely on it, point out conditions, exceptions and deadlines, and say clearly when the documents do not settle a question. Do not give legal advice beyond what the documents state.',
+        queryTemplate: '{query}',
+        questionsPrompt: 'Generate 4 short questions a reader might ask about the obligations, terms, deadlines and termination conditions in these documents.',
+        isBuiltIn: true,
+    },
+    {
+        id: 'academic',
+        name: 'Research papers',
+        systemInstruction: 'You help a researcher work with the papers in the library "{documentName}". Distinguish between what a paper claims, the evidence it gives and its stated limitations. Name the paper each point comes from and keep technical terms precise.',
+        queryTemplate: '{query}',
+        questionsPrompt: 'Generate 4 short questions a researcher might ask about the methods, findings and limitations of these papers.',
+        isBuiltIn: true,
+    },
+    {
+        id: 'code-docs',
+        name: 'Code documentation',
+        systemInstruction: 'You answer developer questions about the technical documentation in the library "{documentName}". Prefer concrete API names, parameters and short code examples in fenced code blocks, and mention version requirements when the documentation states them.',
+        queryTemplate: '{query}',
+        questionsPrompt: 'Generate 4 short questions a developer might ask about using the APIs, configuration and features described in this documentation.',
+        isBuiltIn: true,
+    },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/** Replaces `{name}` placeholders with their values; unknown names are left untouched. */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = variables[name as keyof TemplateVariables];
+        return value === undefined ? match : value;
+    });
+}
+
+const isPromptTemplate = (value: any): value is PromptTemplate =>
+    !!value && typeof value.id === 'string' && typeof value.name === 'string'
+    && typeof value.systemInstruction === 'string' && typeof value.queryTemplate === 'string'
+    && typeof value.questionsPrompt === 'string';
+
+/** User-created presets and edited copies of built-in ones (same id). */
+export function loadCustomTemplates(): PromptTemplate[] {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed.filter(isPromptTemplate) : [];
+    } catch (error) {
+        console.warn("Ignoring unreadable prompt templates", error);
+        return [];
+    }
+}
+
+export function saveCustomTemplates(templates: PromptTemplate[]) {
+    try {
+        localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+        console.warn("Failed to save prompt templates", error);
+    }
+}
+
+/** Built-in presets (with any user edits applied) followed by the user's own. */
+export function mergeTemplates(customTemplates: PromptTemplate[]): PromptTemplate[] {
+    const builtInIds = new Set(BUILT_IN_TEMPLATES.map(template => template.id));
+    const overrides = new Map(customTemplates.map(template => [template.id, template]));
+    return [
+        ...BUILT_IN_TEMPLATES.map(template => ({ ...template, ...overrides.get(template.id), isBuiltIn: true })),
+        ...customTemplates.filter(template => !builtInIds.has(template.id)).map(template => ({ ...template, isBuiltIn: false })),
+    ];
+}
+
+export function findTemplate(templates: PromptTemplate[], id: string): PromptTemplate {
+    return templates.find(template => template.id === id) || DEFAULT_PROMPT_TEMPLATE;
+}
+
+/** The part of an edited preset list that needs storing: the user's presets and changed built-ins. */
+export function toCustomTemplates(templates: PromptTemplate[]): PromptTemplate[] {
+    return templates.filter(template => {
+        const builtIn = BUILT_IN_TEMPLATES.find(candidate => candidate.id === template.id);
+        return !builtIn || builtIn.name !== template.name || builtIn.systemInstruction !== template.systemInstruction
+            || builtIn.queryTemplate !== template.queryTemplate || builtIn.questionsPrompt !== template.questionsPrompt;
+    }).map(({ isBuiltIn, ...template }) => template);
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SampleCatalog, SampleDocument, SamplePack } from '../types';
+
+/**
+ * Sample documents offered in the upload dialog. The catalog is a JSON
+ * manifest; the default one ships in `public/samples` next to bundled sample
+ * files so the demo works offline. Deployments can replace that file or point
+ * SAMPLE_CATALOG_URL at their own manifest.
+ */
+export const SAMPLE_CATALOG_URL = process.env.SAMPLE_CATALOG_URL || '/samples/catalog.json';
+
+export const EMPTY_SAMPLE_CATALOG: SampleCatalog = { samples: [], packs: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOr = (value: unknown, fallback: string): string =>
+    typeof value === 'string' ? value : fallback;
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+function parseSample(entry: unknown, baseUrl: string): SampleDocument | null {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || typeof entry.url !== 'string') return null;
+    let url: URL;
+    try {
+        url = new URL(entry.url, baseUrl);
+    } catch {
+        return null;
+    }
+    const fileName = stringOr(entry.fileName, '') || decodeURIComponent(url.pathname.split('/').pop() || '') || entry.name;
+    return {
+        id: stringOr(entry.id, '') || entry.name,
+        name: entry.name,
+        details: stringOr(entry.details, ''),
+        url: url.toString(),
+        fileName,
+        icon: stringOr(entry.icon, 'file'),
+        tags: stringList(entry.tags),
+        suggestedQuestions: stringList(entry.suggestedQuestions),
+    };
+}
+
+/**
+ * Reads a catalog manifest. Entries that are missing a name or URL are
+ * dropped rather than failing the whole catalog, and packs only keep the
+ * sample ids that exist. Relative URLs resolve against `baseUrl`.
+ */
+export function parseSampleCatalog(json: unknown, baseUrl: string): SampleCatalog {
+    if (!isRecord(json)) throw new Error("The sample catalog must be a JSON object.");
+    const samples = (Array.isArray(json.samples) ? json.samples : [])
+        .map(entry => parseSample(entry, baseUrl))
+        .filter((sample): sample is SampleDocument => sample !== null);
+    const ids = new Set(samples.map(sample => sample.id));
+    const packs = (Array.isArray(json.packs) ? json.packs : [])
+        .filter(isRecord)
+        .map((pack): SamplePack => ({
+            id: stringOr(pack.id, '') || stringOr(pack.name, ''),
+            name: stringOr(pack.name, ''),
+            description: stringOr(pack.description, ''),
+            sampleIds: stringList(pack.sampleIds).filter(id => ids.has(id)),
+        }))
+        .filter(pack => pack.name && pack.sampleIds.length > 0);
+    return { samples, packs };
+}
+
+export async function loadSampleCatalog(url: string = SAMPLE_CATALOG_URL): Promise<SampleCatalog> {
+    const manifestUrl = new URL(url, window.location.href).toString();
+    const response = await fetch(manifestUrl);
+    if (!response.ok) {
+        throw new Error(`Failed to load the sample catalog: ${response.status} ${response.statusText}`);
+    }
+    return parseSampleCatalog(await response.json(), manifestUrl);
+}
+
+/** The samples in `pack`, in the order the pack lists them. */
+export function samplesInPack(catalog: SampleCatalog, pack: SamplePack): SampleDocument[] {
+    return pack.sampleIds
+        .map(id => catalog.samples.find(sample => sample.id === id))
+        .filter((sample): sample is SampleDocument => sample !== undefined);
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, QueryResult, CustomMetadata, ChatMessage, GenerationSettings, UploadOptions } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { localProvider } from './localRagService';
+
+/**
+ * Everything the app needs from an LLM/retrieval backend. Gemini is the
+ * production implementation; the local provider keeps documents in the
+ * browser, and the mock runs fully in memory so the app can be used without an
+ * API key.
+ */
+export interface SearchProvider {
+    readonly id: string;
+    initialize(): void;
+
+    createRagStore(displayName: string): Promise<string>;
+    listRagStores(): Promise<RagStore[]>;
+    getRagStore(ragStoreName: string): Promise<RagStore>;
+    deleteRagStore(ragStoreName: string): Promise<void>;
+
+    uploadToRagStore(ragStoreName: string, file: File, metadata?: CustomMetadata[], options?: UploadOptions): Promise<void>;
+    listDocuments(ragStoreName: string): Promise<Document[]>;
+    deleteDocument(documentName: string): Promise<void>;
+
+    rewriteStandaloneQuestion(history: ChatMessage[], question: string, settings?: GenerationSettings): Promise<string>;
+    /** Searches every store in `ragStoreNames` at once; each source names its store in `retrievedContext.fileSearchStore`. */
+    fileSearch(ragStoreNames: string[], query: string, metadataFilter?: string, history?: ChatMessage[], settings?: GenerationSettings): Promise<QueryResult>;
+    fileSearchStream(
+        ragStoreNames: string[],
+        query: string,
+        metadataFilter: string | undefined,
+        history: ChatMessage[],
+        settings: GenerationSettings,
+        onUpdate: (partial: QueryResult) => void,
+        abortSignal?: AbortSignal,
+    ): Promise<QueryResult>;
+    webSearch(query: string, history?: ChatMessage[], settings?: GenerationSettings): Promise<QueryResult>;
+    webSearchStream(
+        query: string,
+        history: ChatMessage[],
+        settings: GenerationSettings,
+        onUpdate: (partial: QueryResult) => void,
+        abortSignal?: AbortSignal,
+    ): Promise<QueryResult>;
+
+    generateExampleQuestions(ragStoreName: string, settings?: GenerationSettings): Promise<string[]>;
+    generateWebSearchQuestions(): Promise<string[]>;
+}
+
+const providers: Record<string, SearchProvider> = {
+    [geminiProvider.id]: geminiProvider,
+    [mockProvider.id]: mockProvider,
+    [localProvider.id]: localProvider,
+};
+
+let provider: SearchProvider;
+
+/**
+ * Selects the provider named by the `SEARCH_PROVIDER` env var (`gemini` by
+ * default, `local` or `mock`) and initializes it.
+ */
+export function initialize(providerId: string = process.env.SEARCH_PROVIDER || geminiProvider.id): SearchProvider {
+    const selected = providers[providerId];
+    if (!selected) {
+        throw new Error(`Unknown search provider "${providerId}". Expected one of: ${Object.keys(providers).join(', ')}.`);
+    }
+    selected.initialize();
+    provider = selected;
+    return provider;
+}
+
+export function getProvider(): SearchProvider {
+    if (!provider) throw new Error("Search provider not initialized");
+    return provider;
+}
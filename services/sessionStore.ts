@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ChatSession } from '../types';
+import { SESSIONS_STORE, withStore, promisifyRequest } from './localDb';
+import { allMessages, mapMessages } from './chatTree';
+
+// Transient UI flags are not worth persisting.
+function toStoredMessage({ isStreaming, ...message }: ChatMessage): ChatMessage {
+    return message;
+}
+
+export async function saveSession(session: ChatSession): Promise<void> {
+    const stored: ChatSession = {
+        ...session,
+        messages: session.messages.map(toStoredMessage),
+        tree: session.tree && mapMessages(session.tree, toStoredMessage),
+    };
+    await withStore(SESSIONS_STORE, 'readwrite', store => promisifyRequest(store.put(stored)));
+}
+
+export async function getSession(id: string): Promise<ChatSession | undefined> {
+    return withStore(SESSIONS_STORE, 'readonly', store => promisifyRequest<ChatSession | undefined>(store.get(id)));
+}
+
+export async function listSessions(): Promise<ChatSession[]> {
+    const sessions = await withStore(SESSIONS_STORE, 'readonly', store => promisifyRequest<ChatSession[]>(store.getAll()));
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+    await withStore(SESSIONS_STORE, 'readwrite', async store => {
+        const session = await promisifyRequest<ChatSession | undefined>(store.get(id));
+        if (session) {
+            await promisifyRequest(store.put({ ...session, title }));
+        }
+    });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    await withStore(SESSIONS_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+}
+
+export function sessionMatches(session: ChatSession, search: string): boolean {
+    const needle = search.trim().toLowerCase();
+    if (!needle) return true;
+    return session.title.toLowerCase().includes(needle)
+        || session.documentName.toLowerCase().includes(needle)
+        // Search every branch, not only the one that was shown last.
+        || (session.tree ? allMessages(session.tree) : session.messages).some(message => message.parts.some(part => part.text.toLowerCase().includes(needle)));
+}
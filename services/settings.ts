@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationSettings } from '../types';
+import { DEFAULT_HISTORY_TOKEN_BUDGET } from './conversation';
+import { DEFAULT_PROMPT_TEMPLATE } from './promptTemplates';
+
+export const SETTINGS_STORAGE_KEY = 'mnemomind.settings';
+
+export const AVAILABLE_MODELS: { id: string; label: string }[] = [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = { model: AVAILABLE_MODELS[0].id };
+
+/** Settings kept in localStorage between visits. The system prompt is stored per session instead. */
+export interface AppSettings {
+    generation: Omit<GenerationSettings, 'systemInstruction' | 'promptTemplate' | 'documentName'>;
+    /** Active prompt preset; the presets themselves are stored by `promptTemplates`. */
+    promptTemplateId: string;
+    isConversationMode: boolean;
+    historyTokenBudget: number;
+    /** Used for URL imports when a site blocks cross-origin requests; empty fetches directly. */
+    corsProxyUrl: string;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    generation: DEFAULT_GENERATION_SETTINGS,
+    promptTemplateId: DEFAULT_PROMPT_TEMPLATE.id,
+    isConversationMode: true,
+    historyTokenBudget: DEFAULT_HISTORY_TOKEN_BUDGET,
+    corsProxyUrl: '',
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+export function loadSettings(): AppSettings {
+    try {
+        const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (!raw) return DEFAULT_SETTINGS;
+        const stored = JSON.parse(raw) as Partial<AppSettings>;
+        const generation: Partial<GenerationSettings> = stored.generation || {};
+        // Validate field by field so a stale or hand-edited entry can't break requests.
+        return {
+            generation: {
+                model: typeof generation.model === 'string' && generation.model ? generation.model : DEFAULT_GENERATION_SETTINGS.model,
+                temperature: optionalNumber(generation.temperature),
+                maxOutputTokens: optionalNumber(generation.maxOutputTokens),
+                thinkingBudget: optionalNumber(generation.thinkingBudget),
+            },
+            promptTemplateId: typeof stored.promptTemplateId === 'string' ? stored.promptTemplateId : DEFAULT_SETTINGS.promptTemplateId,
+            isConversationMode: typeof stored.isConversationMode === 'boolean' ? stored.isConversationMode : DEFAULT_SETTINGS.isConversationMode,
+            historyTokenBudget: optionalNumber(stored.historyTokenBudget) ?? DEFAULT_SETTINGS.historyTokenBudget,
+            corsProxyUrl: typeof stored.corsProxyUrl === 'string' ? stored.corsProxyUrl : DEFAULT_SETTINGS.corsProxyUrl,
+        };
+    } catch (error) {
+        console.warn("Ignoring unreadable settings", error);
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function saveSettings(settings: AppSettings) {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn("Failed to save settings", error);
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ExtractedPage {
+    text: string;
+    /** 1-based page number, only set for paginated formats such as PDF. */
+    pageNumber?: number;
+}
+
+export interface ExtractionRequest {
+    id: number;
+    file: File;
+}
+
+export type ExtractionResponse =
+    | { id: number; pages: ExtractedPage[] }
+    | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (pages: ExtractedPage[]) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL('./textExtraction.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+            const request = pending.get(event.data.id);
+            if (!request) return;
+            pending.delete(event.data.id);
+            if ('error' in event.data) {
+                request.reject(new Error(event.data.error));
+            } else {
+                request.resolve(event.data.pages);
+            }
+        };
+        worker.onerror = (event) => {
+            // A crashed worker fails everything in flight; the next call starts a fresh one.
+            const error = new Error(event.message || "Text extraction worker failed");
+            pending.forEach(request => request.reject(error));
+            pending.clear();
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+}
+
+/**
+ * Extracts plain text from a PDF, TXT or Markdown file in a Web Worker so large
+ * documents do not block the UI. PDFs are returned page by page.
+ */
+export function extractText(file: File): Promise<ExtractedPage[]> {
+    return new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pending.set(id, { resolve, reject });
+        const request: ExtractionRequest = { id, file };
+        getWorker().postMessage(request);
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as pdfjs from 'pdfjs-dist';
+import type { ExtractedPage, ExtractionRequest, ExtractionResponse } from './textExtraction';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+const isText = (file: File) => file.type.startsWith('text/') || /\.(txt|md|markdown)$/i.test(file.name);
+
+async function extractPdf(file: File): Promise<ExtractedPage[]> {
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const pages: ExtractedPage[] = [];
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const text = content.items
+                .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+                .join('');
+            if (text.trim()) {
+                pages.push({ text, pageNumber });
+            }
+            page.cleanup();
+        }
+    } finally {
+        await pdf.destroy();
+    }
+    return pages;
+}
+
+async function extract(file: File): Promise<ExtractedPage[]> {
+    if (isPdf(file)) return extractPdf(file);
+    if (isText(file)) return [{ text: await file.text() }];
+    throw new Error(`Unsupported file type for local indexing: ${file.name}`);
+}
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+    const { id, file } = event.data;
+    let response: ExtractionResponse;
+    try {
+        response = { id, pages: await extract(file) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response);
+};
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { OcrPageResult, UploadFileStatus, UploadOptions } from '../types';
+
+/**
+ * Uploads a batch of files with bounded parallelism. Each attempt gets its
+ * own timeout, failed attempts are retried with exponential backoff, and one
+ * file failing never stops the others. Aborting the batch signal cancels
+ * everything still queued or in flight.
+ */
+
+export interface UploadQueueOptions {
+    /** Files uploaded at the same time. */
+    concurrency: number;
+    /** Attempts per file, including the first. */
+    maxAttempts: number;
+    /** Wait before the first retry; doubled for each further retry. */
+    retryDelayMs: number;
+    /** Time allowed for one attempt, upload and indexing together. OCR is not timed. */
+    timeoutMs: number;
+}
+
+export const DEFAULT_UPLOAD_QUEUE_OPTIONS: UploadQueueOptions = {
+    concurrency: 3,
+    maxAttempts: 3,
+    retryDelayMs: 2000,
+    timeoutMs: 5 * 60 * 1000,
+};
+
+/** What an upload function is handed for one attempt; adds the optional OCR stage to {@link UploadOptions}. */
+export interface UploadTaskOptions extends Omit<UploadOptions, 'onStateChange'> {
+    onStateChange?: (state: 'recognizing' | 'uploading' | 'indexing') => void;
+    onOcrPage?: (page: OcrPageResult) => void;
+}
+
+export type UploadFn = (file: File, options: UploadTaskOptions) => Promise<void>;
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        signal.addEventListener('abort', done, { once: true });
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
+
+/** Runs one attempt, settling as soon as `signal` aborts even if the upload ignores it. */
+function attempt(upload: UploadFn, file: File, signal: AbortSignal, callbacks: Omit<UploadTaskOptions, 'abortSignal'>): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        upload(file, { ...callbacks, abortSignal: signal })
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export async function runUploadQueue(
+    files: File[],
+    upload: UploadFn,
+    onStatusChange: (statuses: UploadFileStatus[]) => void,
+    abortSignal?: AbortSignal,
+    options: UploadQueueOptions = DEFAULT_UPLOAD_QUEUE_OPTIONS,
+): Promise<UploadFileStatus[]> {
+    const batchSignal = abortSignal || new AbortController().signal;
+    let statuses: UploadFileStatus[] = files.map(file => ({ file, state: 'queued', attempts: 0 }));
+    const update = (index: number, changes: Partial<UploadFileStatus>) => {
+        statuses = statuses.map((status, i) => i === index ? { ...status, ...changes } : status);
+        onStatusChange(statuses);
+    };
+    onStatusChange(statuses);
+
+    const processFile = async (index: number) => {
+        for (let attempts = 1; attempts <= options.maxAttempts; attempts++) {
+            if (batchSignal.aborted) break;
+            update(index, { state: 'uploading', attempts });
+
+            const controller = new AbortController();
+            const abortAttempt = () => controller.abort(batchSignal.reason);
+            batchSignal.addEventListener('abort', abortAttempt, { once: true });
+            // OCR speed depends on the device rather than the network, so the
+            // timeout only runs while the file is being uploaded or indexed.
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const startTimer = () => {
+                timer ??= setTimeout(() => controller.abort(
+                    new Error(`Timed out after ${Math.round(options.timeoutMs / 1000)} s`)), options.timeoutMs);
+            };
+            startTimer();
+            try {
+                await attempt(upload, files[index], controller.signal, {
+                    onStateChange: state => {
+                        if (controller.signal.aborted) return;
+                        if (state === 'recognizing') {
+                            clearTimeout(timer);
+                            timer = undefined;
+                            update(index, { state, ocrPages: [] });
+                        } else {
+                            startTimer();
+                            update(index, { state });
+                        }
+                    },
+                    onOcrPage: page => {
+                        if (!controller.signal.aborted) update(index, { ocrPages: [...(statuses[index].ocrPages || []), page] });
+                    },
+                });
+                update(index, { state: 'done', error: undefined });
+                return;
+            } catch (error) {
+                if (batchSignal.aborted) break;
+                update(index, { state: attempts < options.maxAttempts ? 'queued' : 'failed', error: describeError(error) });
+            } finally {
+                clearTimeout(timer);
+                batchSignal.removeEventListener('abort', abortAttempt);
+            }
+            if (attempts < options.maxAttempts) {
+                await wait(options.retryDelayMs * 2 ** (attempts - 1), batchSignal);
+            }
+        }
+        if (batchSignal.aborted) update(index, { state: 'cancelled' });
+    };
+
+    let next = 0;
+    const worker = async () => {
+        while (next < files.length) {
+            await processFile(next++);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, files.length) }, worker));
+    return statuses;
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { RejectedFile } from './fileConversion';
+
+/**
+ * Imports documents from the web. A URL can point at a file, an HTML page or
+ * a sitemap/RSS/Atom feed; feeds are crawled up to a page limit. Browsers
+ * block cross-origin reads unless the site allows them, so requests can be
+ * routed through a user-configured CORS proxy.
+ */
+
+export const DEFAULT_MAX_CRAWL_PAGES = 20;
+export const MAX_CRAWL_PAGES = 200;
+/** Nested sitemap indexes deeper than this are ignored. */
+const MAX_SITEMAP_DEPTH = 2;
+
+export interface UrlImportOptions {
+    /**
+     * Proxy that fetches the page on the browser's behalf. `{url}` is replaced
+     * with the encoded target URL; without it the encoded URL is appended.
+     */
+    proxyUrl?: string;
+    /** Pages fetched at most when the URL is a sitemap or feed. */
+    maxPages?: number;
+    abortSignal?: AbortSignal;
+    onProgress?: (message: string) => void;
+}
+
+export interface UrlImportResult {
+    files: File[];
+    rejected: RejectedFile[];
+}
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+    'application/pdf': '.pdf',
+    'text/plain': '.txt',
+    'text/markdown': '.md',
+    'text/html': '.html',
+    'application/xhtml+xml': '.html',
+    'text/csv': '.csv',
+    'application/json': '.json',
+    'application/zip': '.zip',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/webp': '.webp',
+};
+
+/** Returns `url` as an absolute http(s) URL, or throws a message meant for the user. */
+export function parseImportUrl(url: string): URL {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch {
+        throw new Error(`"${url}" is not a valid URL.`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Only http and https URLs can be imported.`);
+    }
+    return parsed;
+}
+
+export function proxiedUrl(url: string, proxyUrl?: string): string {
+    const proxy = proxyUrl?.trim();
+    if (!proxy) return url;
+    return proxy.includes('{url}') ? proxy.replace('{url}', encodeURIComponent(url)) : proxy + encodeURIComponent(url);
+}
+
+async function fetchUrl(url: string, options: UrlImportOptions): Promise<Response> {
+    let response: Response;
+    try {
+        // Same-origin files, such as bundled samples, never need the proxy.
+        const sameOrigin = typeof location !== 'undefined' && new URL(url).origin === location.origin;
+        response = await fetch(sameOrigin ? url : proxiedUrl(url, options.proxyUrl), { signal: options.abortSignal });
+    } catch (error) {
+        if (options.abortSignal?.aborted) throw error;
+        // fetch reports a CORS rejection as a bare network error; it can't be told apart from being offline.
+        const host = new URL(url).host;
+        throw new Error(options.proxyUrl?.trim()
+            ? `Could not reach ${host} through the CORS proxy. Check the proxy URL.`
+            : `Could not read ${host}. The site may not allow cross-origin requests (CORS): set a CORS proxy, or download the file and upload it.`);
+    }
+    if (!response.ok) {
+        throw new Error(`${new URL(url).host} returned ${response.status}${response.statusText ? ` ${response.statusText}` : ''}.`);
+    }
+    return response;
+}
+
+function contentType(response: Response): string {
+    return (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+}
+
+/** Builds a readable file name from the URL, adding an extension that matches the content type. */
+export function fileNameFromUrl(url: string, type: string): string {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/').filter(Boolean);
+    const last = segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : '';
+    const expected = EXTENSIONS_BY_TYPE[type];
+    const extension = last.match(/\.[a-z0-9]+$/i)?.[0].toLowerCase();
+    if (extension && (!expected || extension === expected || (expected === '.html' && extension === '.htm'))) return last;
+    const base = extension
+        ? last.slice(0, -extension.length)
+        : [parsed.host, ...segments].join('-').replace(/[^a-z0-9._-]+/gi, '-').replace(/-+$/, '');
+    return base + (expected || '');
+}
+
+async function responseToFile(url: string, response: Response, fileName?: string): Promise<File> {
+    const blob = await response.blob();
+    const type = contentType(response) || blob.type;
+    return new File([blob], fileName || fileNameFromUrl(url, type), { type });
+}
+
+/** Fetches a single document. `fileName` overrides the name derived from the URL. */
+export async function fetchFile(url: string, options: UrlImportOptions = {}, fileName?: string): Promise<File> {
+    return responseToFile(url, await fetchUrl(url, options), fileName);
+}
+
+type Feed = { kind: 'pages' | 'sitemaps'; urls: string[] };
+
+/** Reads the links from a sitemap, sitemap index, RSS or Atom feed, or returns null for other XML. */
+export function parseFeed(xml: string, baseUrl: string): Feed | null {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return null;
+    const root = doc.documentElement.localName;
+    const texts = (tag: string) => Array.from(doc.getElementsByTagNameNS('*', tag)).map(element => (element.textContent || '').trim());
+    let urls: string[];
+    switch (root) {
+        case 'urlset': urls = texts('loc'); break;
+        case 'sitemapindex': return { kind: 'sitemaps', urls: texts('loc').filter(Boolean) };
+        case 'rss':
+        case 'RDF': urls = Array.from(doc.getElementsByTagNameNS('*', 'item')).map(item =>
+            (Array.from(item.children).find(child => child.localName === 'link')?.textContent || '').trim()); break;
+        case 'feed': urls = Array.from(doc.getElementsByTagNameNS('*', 'entry')).map(entry => {
+            const links = Array.from(entry.children).filter(child => child.localName === 'link');
+            const link = links.find(l => (l.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+            return link?.getAttribute('href') || '';
+        }); break;
+        default: return null;
+    }
+    const resolved = urls.filter(Boolean).map(link => {
+        try {
+            return new URL(link, baseUrl).toString();
+        } catch {
+            return '';
+        }
+    });
+    return { kind: 'pages', urls: Array.from(new Set(resolved.filter(Boolean))) };
+}
+
+const looksLikeXml = (url: string, type: string) =>
+    /xml|rss|atom/.test(type) || /\.(xml|rss|atom)$/i.test(new URL(url).pathname);
+
+/** Collects page URLs from a feed, following nested sitemaps until `maxPages` are found. */
+async function collectPages(feed: Feed, options: UrlImportOptions, limit: number, rejected: RejectedFile[], depth = 0): Promise<string[]> {
+    if (feed.kind === 'pages') return feed.urls.slice(0, limit);
+    const pages: string[] = [];
+    for (const sitemapUrl of feed.urls) {
+        if (pages.length >= limit || depth >= MAX_SITEMAP_DEPTH) break;
+        try {
+            const nested = parseFeed(await (await fetchUrl(sitemapUrl, options)).text(), sitemapUrl);
+            if (nested) pages.push(...await collectPages(nested, options, limit - pages.length, rejected, depth + 1));
+        } catch (error) {
+            if (options.abortSignal?.aborted) throw error;
+            rejected.push({ name: sitemapUrl, reason: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return pages;
+}
+
+/**
+ * Imports the document at `url`. Files and HTML pages come back as one file;
+ * sitemaps and feeds are crawled, and pages that fail are listed as rejected
+ * so one broken link doesn't stop the rest. HTML is converted later, together
+ * with uploaded files.
+ */
+export async function importFromUrl(url: string, options: UrlImportOptions = {}): Promise<UrlImportResult> {
+    const target = parseImportUrl(url).toString();
+    options.onProgress?.(`Fetching ${new URL(target).host}...`);
+    const response = await fetchUrl(target, options);
+    const type = contentType(response);
+    if (!looksLikeXml(target, type)) {
+        return { files: [await responseToFile(target, response)], rejected: [] };
+    }
+
+    const text = await response.text();
+    const feed = parseFeed(text, target);
+    if (!feed) {
+        return { files: [new File([text], fileNameFromUrl(target, type), { type })], rejected: [] };
+    }
+
+    const result: UrlImportResult = { files: [], rejected: [] };
+    const limit = Math.min(Math.max(1, options.maxPages ?? DEFAULT_MAX_CRAWL_PAGES), MAX_CRAWL_PAGES);
+    const pages = await collectPages(feed, options, limit, result.rejected);
+    if (pages.length === 0 && result.rejected.length === 0) {
+        throw new Error(`${new URL(target).host} lists no pages.`);
+    }
+    for (const [index, page] of pages.entries()) {
+        options.onProgress?.(`Fetching page ${index + 1} of ${pages.length}...`);
+        try {
+            result.files.push(await fetchFile(page, options));
+        } catch (error) {
+            if (options.abortSignal?.aborted) throw error;
+            result.rejected.push({ name: page, reason: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return result;
+}
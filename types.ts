@@ -5,6 +5,77 @@
 export interface RagStore {
     name: string;
     displayName: string;
+    createTime?: string;
+    documentCount?: number;
+}
+
+export interface LibraryOptions {
+    displayName: string;
+    deleteOnEnd: boolean;
+    /** Run OCR on scanned PDFs and page photos before uploading them. */
+    ocr: boolean;
+    /** Questions from the sample catalog; when set they replace the generated suggestions. */
+    suggestedQuestions?: string[];
+}
+
+/** One entry of the sample document catalog. */
+export interface SampleDocument {
+    id: string;
+    name: string;
+    /** Short description such as "36 pages, PDF". */
+    details: string;
+    /** Absolute, or relative to the catalog manifest for bundled files. */
+    url: string;
+    fileName: string;
+    /** Key into the icons the upload dialog knows; unknown keys get a generic file icon. */
+    icon: string;
+    tags: string[];
+    suggestedQuestions: string[];
+}
+
+/** A set of samples that can be added in one click. */
+export interface SamplePack {
+    id: string;
+    name: string;
+    description: string;
+    sampleIds: string[];
+}
+
+export interface SampleCatalog {
+    samples: SampleDocument[];
+    packs: SamplePack[];
+}
+
+/** Progress of one file in an upload batch. `recognizing` is the optional OCR stage. */
+export type UploadFileState = 'queued' | 'recognizing' | 'uploading' | 'indexing' | 'done' | 'failed' | 'cancelled';
+
+export interface OcrPageResult {
+    pageNumber: number;
+    /** Tesseract's mean word confidence, 0-100. */
+    confidence: number;
+}
+
+export interface UploadFileStatus {
+    file: File;
+    state: UploadFileState;
+    attempts: number;
+    /** Why the last attempt failed. */
+    error?: string;
+    /** Pages that went through OCR, in the order they were recognized. */
+    ocrPages?: OcrPageResult[];
+}
+
+export interface UploadProgress {
+    /** `review` waits for the user to decide what to do about files that did not upload. */
+    phase: 'creating' | 'uploading' | 'review' | 'finishing';
+    message: string;
+    files: UploadFileStatus[];
+}
+
+export interface UploadOptions {
+    abortSignal?: AbortSignal;
+    /** Reports when the file has been sent and server-side indexing starts. */
+    onStateChange?: (state: 'uploading' | 'indexing') => void;
 }
 
 export interface CustomMetadata {
@@ -14,15 +85,31 @@ export interface CustomMetadata {
   numericValue?: number;
 }
 
+export type MetadataOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface MetadataFilter {
+    key: string;
+    operator: MetadataOperator;
+    value: string | number;
+}
+
 export interface Document {
     name: string;
     displayName: string;
     customMetadata?: CustomMetadata[];
+    state?: string;
+    sizeBytes?: number;
+    mimeType?: string;
+    createTime?: string;
 }
 
 export interface GroundingChunk {
     retrievedContext?: {
         text?: string;
+        title?: string;
+        uri?: string;
+        pageNumber?: number;
+        fileSearchStore?: string;
     };
     web?: {
         uri?: string;
@@ -30,9 +117,48 @@ export interface GroundingChunk {
     };
 }
 
+export interface GroundingSupport {
+    segment?: {
+        startIndex?: number;
+        endIndex?: number;
+        text?: string;
+    };
+    groundingChunkIndices?: number[];
+}
+
 export interface QueryResult {
     text: string;
     groundingChunks: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+}
+
+export interface GenerationSettings {
+    model: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    /** Thinking token budget: -1 lets the model decide, 0 turns thinking off. Unset uses the model default. */
+    thinkingBudget?: number;
+    systemInstruction?: string;
+    /** Preset that shapes document answers and example questions. Unset uses the built-in default. */
+    promptTemplate?: PromptTemplate;
+    /** Library name, available to prompt templates as `{documentName}`. */
+    documentName?: string;
+}
+
+/**
+ * A named prompt preset. Text fields may use the `{query}` and
+ * `{documentName}` variables; unknown variables are left as written.
+ */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    /** Sent as the system instruction for document answers. */
+    systemInstruction: string;
+    /** The user turn sent to the model, normally containing `{query}`. */
+    queryTemplate: string;
+    /** What the suggested example questions should be about. */
+    questionsPrompt: string;
+    isBuiltIn?: boolean;
 }
 
 export enum AppStatus {
@@ -45,10 +171,91 @@ export enum AppStatus {
 export enum SearchSource {
     FileSearch,
     GoogleSearch,
+    // File Search and Google Search together, fused into one answer.
+    Hybrid,
 }
 
 export interface ChatMessage {
     role: 'user' | 'model';
     parts: { text: string }[];
     groundingChunks?: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+    filters?: MetadataFilter[];
+    rewrittenQuery?: string;
+    /** Model and prompt preset that wrote an answer, kept for feedback. */
+    model?: string;
+    promptTemplateId?: string;
+    isStreaming?: boolean;
+    isStopped?: boolean;
+    /** The request failed and the text is an error notice, not an answer. */
+    isError?: boolean;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+/** What the user says about an answer. */
+export interface FeedbackInput {
+    rating: FeedbackRating;
+    comment?: string;
+    /** The answer cited a source that does not support it. */
+    wrongSource?: boolean;
+}
+
+/**
+ * A rated answer with everything needed to replay it later: the question,
+ * the answer, the generation settings and the sources it was grounded on.
+ */
+export interface AnswerFeedback extends FeedbackInput {
+    /** Id of the rated message in its conversation tree, so rating again replaces the entry. */
+    id: string;
+    sessionId: string | null;
+    createdAt: number;
+    updatedAt: number;
+    query: string;
+    rewrittenQuery?: string;
+    filters?: MetadataFilter[];
+    answer: string;
+    model: string;
+    promptTemplateId: string;
+    promptTemplateName: string;
+    searchSource: SearchSource;
+    documentName: string;
+    ragStoreNames: string[];
+    groundingChunks: GroundingChunk[];
+}
+
+export interface ChatTreeNode {
+    /** Id of the message this one answers or follows; `''` for the first message. */
+    parentId: string;
+    message: ChatMessage;
+}
+
+/**
+ * A conversation with its alternatives. Regenerated answers and edited
+ * questions become siblings of the message they replace, and the chat shows
+ * one path through the tree, following `activeChildIds` from the root.
+ */
+export interface ChatTree {
+    nodes: Record<string, ChatTreeNode>;
+    /** Children of each message in the order they were created; `''` holds the first messages. */
+    childIds: Record<string, string[]>;
+    /** The child shown for each message. */
+    activeChildIds: Record<string, string>;
+}
+
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    searchSource: SearchSource;
+    documentName: string;
+    ragStoreName: string | null;
+    /** Every library the chat searched, `ragStoreName` first. Unset when it searched only that one. */
+    ragStoreNames?: string[];
+    systemPrompt?: string;
+    /** The path shown when the session was saved. */
+    messages: ChatMessage[];
+    /** Every branch of the conversation. Sessions saved before branching existed only have `messages`. */
+    tree?: ChatTree;
 }
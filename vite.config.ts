@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SEARCH_PROVIDER': JSON.stringify(env.SEARCH_PROVIDER || ''),
+        'process.env.SAMPLE_CATALOG_URL': JSON.stringify(env.SAMPLE_CATALOG_URL || ''),
+        'process.env.GEMINI_FIXTURES': JSON.stringify(env.GEMINI_FIXTURES || ''),
+        'process.env.GEMINI_FIXTURE_URL': JSON.stringify(env.GEMINI_FIXTURE_URL || ''),
+        'process.env.GEMINI_FIXTURE_MATCH': JSON.stringify(env.GEMINI_FIXTURE_MATCH || ''),
+        'process.env.LOCAL_RAG_CHUNK_SIZE': JSON.stringify(env.LOCAL_RAG_CHUNK_SIZE || ''),
+        'process.env.LOCAL_RAG_CHUNK_OVERLAP': JSON.stringify(env.LOCAL_RAG_CHUNK_OVERLAP || ''),
+        'process.env.LOCAL_RAG_TOP_K': JSON.stringify(env.LOCAL_RAG_TOP_K || ''),
+        'process.env.LOCAL_RAG_EMBEDDER': JSON.stringify(env.LOCAL_RAG_EMBEDDER || '')
       },
       resolve: {
         alias: {